@@ -14,8 +14,8 @@ EOF
 if [ -n "$API_URL" ]; then
     sed -i "s|\${API_URL}|$API_URL|g" /etc/nginx/conf.d/default.conf
 else
-    # Remove API proxy if not configured
-    sed -i '/location \/api/,/}/d' /etc/nginx/conf.d/default.conf
+    # Remove API proxies (including the backend health route) if not configured
+    sed -i '/location.* \/api/,/}/d' /etc/nginx/conf.d/default.conf
 fi
 
 if [ -n "$WS_URL" ]; then
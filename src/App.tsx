@@ -5,6 +5,13 @@ import Dashboard from '@/pages/Dashboard'
 import Analysis from '@/pages/Analysis'
 import Results from '@/pages/Results'
 import TaskDetail from '@/pages/TaskDetail'
+import PaperDetail from '@/pages/PaperDetail'
+import Organization from '@/pages/Organization'
+import Author from '@/pages/Author'
+import Compare from '@/pages/Compare'
+import Presets from '@/pages/Presets'
+import Annotate from '@/pages/Annotate'
+import Settings from '@/pages/Settings'
 
 function App() {
   return (
@@ -15,6 +22,14 @@ function App() {
           <Route path="/analyze" element={<Analysis />} />
           <Route path="/results" element={<Results />} />
           <Route path="/task/:taskId" element={<TaskDetail />} />
+          <Route path="/task/:taskId/paper/:paperId" element={<PaperDetail />} />
+          <Route path="/org/:name" element={<Organization />} />
+          <Route path="/author/:name" element={<Author />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/presets" element={<Presets />} />
+          <Route path="/annotate" element={<Annotate />} />
+          <Route path="/annotate/:taskId" element={<Annotate />} />
+          <Route path="/settings" element={<Settings />} />
         </Routes>
       </Layout>
       <Toaster />
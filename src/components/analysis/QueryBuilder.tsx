@@ -0,0 +1,258 @@
+import { useState } from 'react'
+import { AlertCircle, Plus, Trash2, FolderPlus, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  QUERY_FIELDS,
+  builderIssues,
+  emptyGroup,
+  emptyTerm,
+  parseQuery,
+  serializeQuery,
+  type Combinator,
+  type QueryGroup,
+  type QueryNode,
+  type QuerySyntax,
+} from '@/lib/queryBuilder'
+import { cn } from '@/lib/utils'
+
+interface QueryBuilderProps {
+  query: string
+  syntax: QuerySyntax
+  onChange: (query: string) => void
+}
+
+// Path of child indexes from the root group
+type NodePath = number[]
+
+function updateAt(group: QueryGroup, path: NodePath, fn: (node: QueryNode) => QueryNode | null): QueryGroup {
+  const [index, ...rest] = path
+  const children = group.children.flatMap((child, i) => {
+    if (i !== index) return [child]
+    const updated = rest.length === 0
+      ? fn(child)
+      : child.kind === 'group' ? updateAt(child, rest, fn) : child
+    return updated ? [updated] : []
+  })
+  return { ...group, children }
+}
+
+function NotToggle({ negated, onToggle }: { negated?: boolean; onToggle: () => void }) {
+  return (
+    <Button
+      type="button"
+      variant={negated ? 'destructive' : 'outline'}
+      size="sm"
+      className="h-8 w-14 text-xs flex-shrink-0"
+      onClick={onToggle}
+      title="Exclude matches (ANDNOT)"
+    >
+      NOT
+    </Button>
+  )
+}
+
+interface GroupEditorProps {
+  group: QueryGroup
+  path: NodePath
+  syntax: QuerySyntax
+  // Shows the NOT toggle: children of an AND group can be excluded, and a NOT left
+  // over in an OR group stays visible so it can be switched off
+  negatable?: boolean
+  onUpdate: (path: NodePath, fn: (node: QueryNode) => QueryNode | null) => void
+}
+
+function GroupEditor({ group, path, syntax, negatable, onUpdate }: GroupEditorProps) {
+  const fielded = syntax === 'fielded'
+  const isRoot = path.length === 0
+  const updateGroup = (fn: (group: QueryGroup) => QueryGroup) => {
+    onUpdate(path, node => fn(node as QueryGroup))
+  }
+
+  return (
+    <div className={cn('space-y-2', !isRoot && 'border-l-2 border-primary/30 pl-3')}>
+      {fielded && (
+        <div className="flex items-center gap-2">
+          {negatable && (
+            <NotToggle negated={group.negated} onToggle={() => updateGroup(g => ({ ...g, negated: !g.negated }))} />
+          )}
+          <Select
+            value={group.combinator}
+            onValueChange={(value) => updateGroup(g => ({ ...g, combinator: value as Combinator }))}
+          >
+            <SelectTrigger className="h-8 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="AND">Match all (AND)</SelectItem>
+              <SelectItem value="OR">Match any (OR)</SelectItem>
+            </SelectContent>
+          </Select>
+          {!isRoot && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-500 hover:text-red-500"
+              onClick={() => onUpdate(path, () => null)}
+              title="Remove group"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {group.children.map((child, i) => {
+        const childPath = [...path, i]
+        const childNegatable = fielded && (group.combinator === 'AND' || !!child.negated)
+        if (child.kind === 'group') {
+          return (
+            <GroupEditor
+              key={i}
+              group={child}
+              path={childPath}
+              syntax={syntax}
+              negatable={childNegatable}
+              onUpdate={onUpdate}
+            />
+          )
+        }
+        const field = QUERY_FIELDS.find(f => f.id === child.field) || QUERY_FIELDS[0]
+        return (
+          <div key={i} className="flex items-center gap-2">
+            {childNegatable && (
+              <NotToggle
+                negated={child.negated}
+                onToggle={() => onUpdate(childPath, node => ({ ...node, negated: !node.negated }))}
+              />
+            )}
+            {fielded && (
+              <Select
+                value={child.field}
+                onValueChange={(value) => onUpdate(childPath, node => ({ ...node, field: value } as QueryNode))}
+              >
+                <SelectTrigger className="h-8 w-32 text-xs flex-shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUERY_FIELDS.map(f => (
+                    <SelectItem key={f.id} value={f.id}>{f.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              value={child.value}
+              onChange={(e) => onUpdate(childPath, node => ({ ...node, value: e.target.value } as QueryNode))}
+              placeholder={fielded ? field.placeholder : 'keywords'}
+              className="h-8 text-xs font-mono"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={() => onUpdate(childPath, () => null)}
+              title="Remove condition"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 text-xs"
+          onClick={() => updateGroup(g => ({ ...g, children: [...g.children, emptyTerm(fielded ? 'cat' : 'all')] }))}
+        >
+          <Plus className="h-3 w-3" />
+          {fielded ? 'Condition' : 'Keyword'}
+        </Button>
+        {fielded && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-1 text-xs"
+            onClick={() => updateGroup(g => ({
+              ...g,
+              children: [...g.children, { ...emptyGroup(g.combinator === 'AND' ? 'OR' : 'AND'), children: [emptyTerm('cat')] }],
+            }))}
+          >
+            <FolderPlus className="h-3 w-3" />
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default function QueryBuilder({ query, syntax, onChange }: QueryBuilderProps) {
+  const [root, setRoot] = useState<QueryGroup>(() => parseQuery(query, syntax))
+  const generated = serializeQuery(root, syntax)
+  const issues = builderIssues(root, syntax)
+
+  const handleUpdate = (path: NodePath, fn: (node: QueryNode) => QueryNode | null) => {
+    const next = path.length === 0 ? fn(root) as QueryGroup : updateAt(root, path, fn)
+    setRoot(next)
+    // Keep the last valid query rather than one that silently drops a NOT
+    if (builderIssues(next, syntax).length === 0) onChange(serializeQuery(next, syntax))
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {syntax === 'fielded'
+            ? 'Combine fields with AND/OR; nest groups for parentheses'
+            : 'This source searches free text; keywords are joined with spaces'}
+        </p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 gap-1 text-xs flex-shrink-0"
+          onClick={() => setRoot(parseQuery(query, syntax))}
+          disabled={query === generated}
+          title="Load the query field into the builder"
+        >
+          <RefreshCw className="h-3 w-3" />
+          Parse Query
+        </Button>
+      </div>
+
+      <GroupEditor group={root} path={[]} syntax={syntax} onUpdate={handleUpdate} />
+
+      {issues.length > 0 ? (
+        <ul className="space-y-1">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-1 text-xs text-red-500">
+              <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Generated query</p>
+          <code className="block bg-muted px-2 py-1.5 rounded text-xs break-all">
+            {generated || '(empty)'}
+          </code>
+        </div>
+      )}
+    </div>
+  )
+}
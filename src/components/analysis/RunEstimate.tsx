@@ -0,0 +1,111 @@
+import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { getTasks } from '@/lib/api'
+import { estimateRun, type Range } from '@/lib/estimate'
+import { STAGE_LABELS } from '@/lib/stages'
+import { formatDuration } from '@/lib/utils'
+import { usePricingStore, useStageHistoryStore } from '@/store'
+import type { AnalysisRequest } from '@/types/api'
+
+interface RunEstimateProps {
+  request: Pick<AnalysisRequest, 'max_papers' | 'data_source'>
+}
+
+function formatRange(range: Range, format: (n: number) => string): string {
+  const low = format(range.low)
+  const high = format(range.high)
+  return low === high ? low : `${low} – ${high}`
+}
+
+const formatCost = (n: number) => `$${n < 1 ? n.toFixed(3) : n.toFixed(2)}`
+
+export default function RunEstimate({ request }: RunEstimateProps) {
+  const pricing = usePricingStore()
+  const timelines = useStageHistoryStore(state => state.timelines)
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: () => getTasks(),
+  })
+
+  const estimate = estimateRun(request, tasks, Object.values(timelines), pricing)
+  const basis = estimate.samples > 0
+    ? `Based on ${estimate.samples} past ${request.data_source.replace('_', ' ')} run${estimate.samples === 1 ? '' : 's'}`
+    : 'No past runs for this source yet; using defaults'
+
+  return (
+    <>
+      <div className="grid grid-cols-2 lg:grid-cols-1 gap-4">
+        <Card>
+          <CardHeader className="pb-2 sm:pb-4">
+            <CardTitle className="text-sm sm:text-base">Estimated Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl sm:text-2xl font-bold">
+              ~{formatDuration(estimate.seconds.expected)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatRange(estimate.seconds, formatDuration)} for ~{Math.round(estimate.papers.expected)} papers
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2 sm:pb-4">
+            <CardTitle className="text-sm sm:text-base">Estimated Cost</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-xl sm:text-2xl font-bold text-green-500">
+              ~{formatCost(estimate.cost.expected)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatRange(estimate.cost, formatCost)} on {pricing.selected_model} (
+              <Link to="/settings" className="underline">prices</Link>)
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2 sm:pb-4">
+          <CardTitle className="text-sm sm:text-base">Estimate Details</CardTitle>
+          <CardDescription className="text-xs">{basis}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3 text-xs">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Papers found</span>
+            <span>{formatRange(estimate.papers, n => String(Math.round(n)))}</span>
+          </div>
+          {estimate.stages.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-muted-foreground">Time by stage</p>
+              <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+                {estimate.stages.map(stage => (
+                  <div
+                    key={stage.stage}
+                    className={STAGE_LABELS[stage.stage]?.color || 'bg-gray-400'}
+                    style={{ width: `${stage.share * 100}%` }}
+                  />
+                ))}
+              </div>
+              {estimate.stages.map(stage => (
+                <div key={stage.stage} className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <span className={`h-2 w-2 rounded-full ${STAGE_LABELS[stage.stage]?.color || 'bg-gray-400'}`} />
+                    {STAGE_LABELS[stage.stage]?.label || stage.stage}
+                  </span>
+                  <span>~{formatDuration(stage.seconds)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">
+              A per-stage breakdown appears once runs have been watched in this browser
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  )
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { ChevronRight, ChevronDown, Search, X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import type { TaxonomyGroup } from '@/lib/taxonomy'
+import { cn } from '@/lib/utils'
+
+interface TaxonomyPickerProps {
+  groups: TaxonomyGroup[]
+  initialSelected: string[]
+  // Shown under the list, e.g. the query the selection produces
+  describe: (selected: string[]) => string
+  onApply: (selected: string[]) => void
+}
+
+export default function TaxonomyPicker({ groups, initialSelected, describe, onApply }: TaxonomyPickerProps) {
+  const [selected, setSelected] = useState<string[]>(initialSelected)
+  const [search, setSearch] = useState('')
+  const [expanded, setExpanded] = useState<string[]>(() =>
+    // Open the groups that already have something selected
+    groups.filter(g => g.categories.some(c => initialSelected.includes(c.id))).map(g => g.id)
+  )
+
+  const term = search.trim().toLowerCase()
+  const visibleGroups = groups
+    .map(group => ({
+      ...group,
+      categories: term && !group.name.toLowerCase().includes(term)
+        ? group.categories.filter(c => c.id.toLowerCase().includes(term) || c.name.toLowerCase().includes(term))
+        : group.categories,
+    }))
+    .filter(group => group.categories.length > 0)
+
+  const toggle = (ids: string[], on: boolean) => {
+    setSelected(prev => on
+      ? Array.from(new Set([...prev, ...ids]))
+      : prev.filter(id => !ids.includes(id)))
+  }
+
+  const toggleExpanded = (groupId: string) => {
+    setExpanded(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId])
+  }
+
+  const names = new Map(groups.flatMap(g => g.categories.map(c => [c.id, c.name] as const)))
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-muted-foreground" />
+        <Input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search categories..."
+          className="h-8 pl-7 text-xs"
+        />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto space-y-1 pr-1">
+        {visibleGroups.map(group => {
+          const ids = group.categories.map(c => c.id)
+          const count = ids.filter(id => selected.includes(id)).length
+          // Searching shows every match without having to expand groups
+          const isOpen = !!term || groups.length === 1 || expanded.includes(group.id)
+          return (
+            <div key={group.id}>
+              <div className="flex items-center gap-2 rounded px-1 py-1 hover:bg-accent">
+                {groups.length > 1 && (
+                  <button type="button" onClick={() => toggleExpanded(group.id)} className="text-muted-foreground">
+                    {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </button>
+                )}
+                <input
+                  type="checkbox"
+                  className="h-4 w-4 accent-primary"
+                  checked={count === ids.length}
+                  ref={(el) => {
+                    if (el) el.indeterminate = count > 0 && count < ids.length
+                  }}
+                  onChange={(e) => toggle(ids, e.target.checked)}
+                />
+                <button
+                  type="button"
+                  className="flex-1 text-left text-xs sm:text-sm font-medium"
+                  onClick={() => toggleExpanded(group.id)}
+                >
+                  {group.name}
+                </button>
+                {count > 0 && <Badge variant="secondary" className="text-xs">{count}</Badge>}
+              </div>
+              {isOpen && (
+                <div className={cn('space-y-0.5', groups.length > 1 && 'ml-7')}>
+                  {group.categories.map(category => (
+                    <label
+                      key={category.id}
+                      className="flex items-center gap-2 rounded px-1 py-0.5 text-xs cursor-pointer hover:bg-accent"
+                    >
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={selected.includes(category.id)}
+                        onChange={(e) => toggle([category.id], e.target.checked)}
+                      />
+                      {category.id !== category.name && (
+                        <span className="font-mono w-28 flex-shrink-0">{category.id}</span>
+                      )}
+                      <span className="text-muted-foreground truncate">{category.name}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+        {visibleGroups.length === 0 && (
+          <p className="text-xs text-muted-foreground text-center py-4">No matching categories</p>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selected.map(id => (
+            <Badge key={id} variant="outline" className="gap-1 pr-1 text-xs" title={names.get(id)}>
+              {id}
+              <button type="button" onClick={() => toggle([id], false)} className="rounded-full hover:bg-accent p-0.5">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <code className="text-xs text-muted-foreground truncate">{describe(selected) || 'Nothing selected'}</code>
+        <div className="flex gap-2 flex-shrink-0">
+          {selected.length > 0 && (
+            <Button type="button" variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setSelected([])}>
+              Clear
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            className="h-8 text-xs"
+            onClick={() => onApply(selected)}
+            disabled={selected.length === 0}
+          >
+            Use as Query
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
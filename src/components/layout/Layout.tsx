@@ -5,6 +5,10 @@ import {
   LayoutDashboard, 
   Search, 
   FileBarChart, 
+  GitCompare,
+  CalendarClock,
+  PenLine,
+  Settings,
   Moon, 
   Sun,
   Github,
@@ -15,17 +19,30 @@ import {
 import { cn } from '@/lib/utils'
 import { Button } from '@/components/ui/button'
 import { useThemeStore } from '@/store'
+import { useTaskQueueRunner } from '@/hooks/useTaskQueue'
+import { useCancellationWatcher } from '@/hooks/useCancelTask'
+import { usePresetScheduler } from '@/hooks/usePresetScheduler'
+import { useTaskNotifications } from '@/hooks/useTaskNotifications'
+import NotificationBell from '@/components/layout/NotificationBell'
 
 const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard },
   { name: 'New Analysis', href: '/analyze', icon: Search },
   { name: 'Results', href: '/results', icon: FileBarChart },
+  { name: 'Compare', href: '/compare', icon: GitCompare },
+  { name: 'Presets', href: '/presets', icon: CalendarClock },
+  { name: 'Annotate', href: '/annotate', icon: PenLine },
+  { name: 'Settings', href: '/settings', icon: Settings },
 ]
 
 export default function Layout({ children }: { children: React.ReactNode }) {
   const location = useLocation()
   const { theme, toggleTheme, setTheme } = useThemeStore()
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
+  useTaskQueueRunner()
+  usePresetScheduler()
+  useTaskNotifications()
+  useCancellationWatcher()
   
   // Close mobile menu on route change
   useEffect(() => {
@@ -83,7 +100,9 @@ export default function Layout({ children }: { children: React.ReactNode }) {
       {/* Navigation */}
       <nav className="flex-1 space-y-1 p-4">
         {navigation.map((item) => {
-          const isActive = location.pathname === item.href
+          const isActive = item.href === '/'
+            ? location.pathname === '/'
+            : location.pathname.startsWith(item.href)
           return (
             <Link
               key={item.name}
@@ -115,6 +134,12 @@ export default function Layout({ children }: { children: React.ReactNode }) {
 
       {/* Footer */}
       <div className="border-t p-4 space-y-3">
+        {!mobile && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Notifications</span>
+            <NotificationBell side="right" />
+          </div>
+        )}
         <div className="flex items-center justify-between">
           <span className="text-sm text-muted-foreground">Theme</span>
           <Button
@@ -163,11 +188,13 @@ export default function Layout({ children }: { children: React.ReactNode }) {
           </div>
           <span className="font-bold truncate">PaperAgent</span>
         </div>
+        <div className="ml-auto">
+          <NotificationBell />
+        </div>
         <Button
           variant="ghost"
           size="icon"
           onClick={toggleTheme}
-          className="ml-auto"
         >
           {theme === 'dark' ? (
             <Sun className="h-4 w-4" />
@@ -0,0 +1,128 @@
+import { useNavigate } from 'react-router-dom'
+import { Bell, CheckCircle2, XCircle, Ban } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/components/ui/use-toast'
+import { requestDesktopPermission } from '@/lib/notifications'
+import { cn } from '@/lib/utils'
+import { useNotificationStore } from '@/store'
+import type { TaskStatus } from '@/types/api'
+
+interface NotificationBellProps {
+  side?: 'bottom' | 'right'
+}
+
+const statusIcons: Partial<Record<TaskStatus, { icon: typeof Bell; color: string }>> = {
+  completed: { icon: CheckCircle2, color: 'text-green-500' },
+  failed: { icon: XCircle, color: 'text-red-500' },
+  cancelled: { icon: Ban, color: 'text-yellow-500' },
+}
+
+const formatAge = (iso: string) => {
+  const minutes = Math.round((Date.now() - new Date(iso).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes}m ago`
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`
+  return new Date(iso).toLocaleDateString()
+}
+
+export default function NotificationBell({ side = 'bottom' }: NotificationBellProps) {
+  const navigate = useNavigate()
+  const { toast } = useToast()
+  const { items, desktop, markRead, markAllRead, clear, setDesktop } = useNotificationStore()
+  const unread = items.filter(n => !n.read).length
+
+  const toggleDesktop = async (enabled: boolean) => {
+    if (!enabled) {
+      setDesktop(false)
+      return
+    }
+    if (await requestDesktopPermission()) {
+      setDesktop(true)
+    } else {
+      toast({
+        variant: 'destructive',
+        title: 'Notifications Blocked',
+        description: 'Allow notifications for this site in your browser settings',
+      })
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8" title="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent side={side} align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={markAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <div className="max-h-80 overflow-y-auto">
+          {items.length === 0 ? (
+            <p className="px-2 py-6 text-center text-xs text-muted-foreground">
+              Finished analyses show up here
+            </p>
+          ) : (
+            items.map(notification => {
+              const status = statusIcons[notification.status]
+              const Icon = status?.icon || Bell
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="items-start gap-2 cursor-pointer"
+                  onSelect={() => {
+                    markRead(notification.id)
+                    navigate(`/task/${notification.task_id}`)
+                  }}
+                >
+                  <Icon className={cn('mt-0.5 h-4 w-4 flex-shrink-0', status?.color)} />
+                  <div className="min-w-0 flex-1">
+                    <p className={cn('text-sm', !notification.read && 'font-medium')}>{notification.title}</p>
+                    <p className="text-xs text-muted-foreground break-words">{notification.message}</p>
+                    <p className="text-[10px] text-muted-foreground">{formatAge(notification.created_at)}</p>
+                  </div>
+                  {!notification.read && <span className="mt-1.5 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />}
+                </DropdownMenuItem>
+              )
+            })
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={desktop}
+          onCheckedChange={(checked) => toggleDesktop(checked)}
+          onSelect={(e) => e.preventDefault()}
+          className="text-xs"
+        >
+          Browser notifications
+        </DropdownMenuCheckboxItem>
+        {items.length > 0 && (
+          <DropdownMenuItem onSelect={clear} className="text-xs text-muted-foreground">
+            Clear all
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,292 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Network as NetworkIcon, ZoomIn, ZoomOut, Maximize2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { buildNetwork, neighborsOf, type NetworkMode } from '@/lib/network'
+import { orgPath } from '@/lib/routes'
+import { CHART_COLORS, cn, truncate } from '@/lib/utils'
+import type { PaperData } from '@/types/api'
+
+interface CollaborationNetworkProps {
+  papers: PaperData[]
+}
+
+const WIDTH = 960
+const HEIGHT = 600
+// Room around the layout for node radii and labels
+const PADDING = 60
+const MIN_ZOOM = 0.5
+const MAX_ZOOM = 8
+// Only the largest nodes are labelled until one is selected
+const LABELLED_NODES = 15
+
+interface View {
+  zoom: number
+  x: number
+  y: number
+}
+
+const INITIAL_VIEW: View = { zoom: 1, x: 0, y: 0 }
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+export default function CollaborationNetwork({ papers }: CollaborationNetworkProps) {
+  const [mode, setMode] = useState<NetworkMode>('organization')
+  const [selected, setSelected] = useState<string | null>(null)
+  const [view, setView] = useState<View>(INITIAL_VIEW)
+  const svgRef = useRef<SVGSVGElement>(null)
+  // The node under the pointer is read on pointerdown: once the svg captures the pointer,
+  // later events target the svg itself
+  const dragRef = useRef<{ x: number; y: number; moved: boolean; node: string | null } | null>(null)
+
+  const network = useMemo(() => buildNetwork(papers, mode), [papers, mode])
+
+  // Colors follow whatever org types the data has, in a stable order
+  const typeColors = useMemo(() => {
+    const types = Array.from(new Set(network.nodes.map(n => n.org_type))).sort()
+    return new Map(types.map((type, i) => [type, CHART_COLORS[i % CHART_COLORS.length]]))
+  }, [network])
+
+  const maxAuthors = Math.max(1, ...network.nodes.map(n => n.authors))
+  const maxWeight = Math.max(1, ...network.edges.map(e => e.weight))
+  const radius = (authors: number) => 4 + Math.sqrt(authors / maxAuthors) * 18
+  const position = new Map(network.nodes.map(node => [node.id, {
+    x: PADDING + (node.x + 0.5) * (WIDTH - 2 * PADDING),
+    y: PADDING + (node.y + 0.5) * (HEIGHT - 2 * PADDING),
+  }]))
+
+  const neighbors = selected ? neighborsOf(selected, network.edges) : []
+  const highlighted = selected ? new Set([selected, ...neighbors.map(n => n.id)]) : null
+  const labelled = new Set(network.nodes.slice(0, LABELLED_NODES).map(n => n.id))
+  const selectedNode = network.nodes.find(n => n.id === selected)
+  const labels = new Map(network.nodes.map(node => [node.id, node.label]))
+  const isEmpty = network.nodes.length === 0
+
+  const switchMode = (next: NetworkMode) => {
+    setMode(next)
+    setSelected(null)
+    setView(INITIAL_VIEW)
+  }
+
+  // Converts a client point to viewBox coordinates
+  const toSvgPoint = (clientX: number, clientY: number) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: (clientX - rect.left) / rect.width * WIDTH,
+      y: (clientY - rect.top) / rect.height * HEIGHT,
+    }
+  }
+
+  const zoomAt = (factor: number, point = { x: WIDTH / 2, y: HEIGHT / 2 }) => {
+    setView(prev => {
+      const zoom = clampZoom(prev.zoom * factor)
+      const scale = zoom / prev.zoom
+      // Keep the point under the cursor fixed
+      return { zoom, x: point.x - (point.x - prev.x) * scale, y: point.y - (point.y - prev.y) * scale }
+    })
+  }
+
+  // React registers wheel listeners as passive, so scrolling the page can't be prevented there
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) return
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault()
+      zoomAt(e.deltaY < 0 ? 1.15 : 1 / 1.15, toSvgPoint(e.clientX, e.clientY))
+    }
+    svg.addEventListener('wheel', handleWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', handleWheel)
+  }, [isEmpty])
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const node = (e.target as Element).closest('[data-node]')?.getAttribute('data-node') ?? null
+    dragRef.current = { ...toSvgPoint(e.clientX, e.clientY), moved: false, node }
+    e.currentTarget.setPointerCapture(e.pointerId)
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const point = toSvgPoint(e.clientX, e.clientY)
+    const dx = point.x - drag.x
+    const dy = point.y - drag.y
+    if (!drag.moved && Math.hypot(dx, dy) < 3) return
+    dragRef.current = { ...drag, ...point, moved: true }
+    setView(prev => ({ ...prev, x: prev.x + dx, y: prev.y + dy }))
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || drag.moved) return
+    // A click rather than a drag: select the node pressed on, or clear
+    setSelected(drag.node === selected ? null : drag.node)
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <NetworkIcon className="h-4 sm:h-5 w-4 sm:w-5" />
+              Collaboration Network
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Linked when they share a paper. Scroll to zoom, drag to pan, click a node to highlight its partners.
+            </CardDescription>
+          </div>
+          <div className="flex gap-1 rounded-md bg-muted p-1 self-start">
+            {([['organization', 'Organizations'], ['country', 'Countries']] as const).map(([option, label]) => (
+              <Button
+                key={option}
+                variant={mode === option ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => switchMode(option)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isEmpty ? (
+          <p className="text-xs sm:text-sm text-muted-foreground text-center py-8">
+            No {mode === 'organization' ? 'normalized organizations' : 'countries'} to connect
+          </p>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-[1fr_240px]">
+            <div className="relative rounded-md border bg-muted/20 overflow-hidden">
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+                className="w-full h-auto touch-none cursor-grab active:cursor-grabbing select-none"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              >
+                <g transform={`translate(${view.x} ${view.y}) scale(${view.zoom})`}>
+                  {network.edges.map(edge => {
+                    const source = position.get(edge.source)!
+                    const target = position.get(edge.target)!
+                    const active = !highlighted || (edge.source === selected || edge.target === selected)
+                    return (
+                      <line
+                        key={`${edge.source}-${edge.target}`}
+                        x1={source.x}
+                        y1={source.y}
+                        x2={target.x}
+                        y2={target.y}
+                        className="stroke-muted-foreground"
+                        strokeWidth={(1 + edge.weight / maxWeight * 5) / view.zoom}
+                        strokeOpacity={active ? 0.25 + 0.5 * edge.weight / maxWeight : 0.05}
+                      />
+                    )
+                  })}
+                  {network.nodes.map(node => {
+                    const { x, y } = position.get(node.id)!
+                    const r = radius(node.authors)
+                    const dimmed = highlighted && !highlighted.has(node.id)
+                    const showLabel = highlighted ? highlighted.has(node.id) : labelled.has(node.id)
+                    return (
+                      <g key={node.id} data-node={node.id} className="cursor-pointer" opacity={dimmed ? 0.15 : 1}>
+                        <title>{`${node.label}\n${node.authors} authors • ${node.papers} papers • ${node.org_type}`}</title>
+                        <circle
+                          cx={x}
+                          cy={y}
+                          r={r / Math.sqrt(view.zoom)}
+                          fill={typeColors.get(node.org_type)}
+                          className="stroke-background"
+                          strokeWidth={(node.id === selected ? 3 : 1.5) / view.zoom}
+                        />
+                        {showLabel && (
+                          <text
+                            x={x}
+                            y={y + (r + 12) / Math.sqrt(view.zoom)}
+                            textAnchor="middle"
+                            fontSize={11 / view.zoom}
+                            className="fill-foreground pointer-events-none"
+                          >
+                            {truncate(node.label, 24)}
+                          </text>
+                        )}
+                      </g>
+                    )
+                  })}
+                </g>
+              </svg>
+
+              {/* Zoom controls */}
+              <div className="absolute right-2 top-2 flex flex-col gap-1">
+                <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomAt(1.4)} title="Zoom in">
+                  <ZoomIn className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomAt(1 / 1.4)} title="Zoom out">
+                  <ZoomOut className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setView(INITIAL_VIEW)} title="Reset view">
+                  <Maximize2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+
+            {/* Details */}
+            <div className="space-y-3 text-xs sm:text-sm">
+              {selectedNode ? (
+                <div className="space-y-2">
+                  <div>
+                    {mode === 'organization' ? (
+                      <Link to={orgPath(selectedNode.id)} className="font-medium hover:underline">{selectedNode.id}</Link>
+                    ) : (
+                      <p className="font-medium">{selectedNode.label}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {selectedNode.authors} authors • {selectedNode.papers} papers • {selectedNode.org_type}
+                    </p>
+                  </div>
+                  <p className="text-xs font-medium text-muted-foreground">
+                    {neighbors.length} partner{neighbors.length !== 1 && 's'}
+                  </p>
+                  <div className="max-h-72 overflow-y-auto space-y-1">
+                    {neighbors.map(neighbor => (
+                      <button
+                        key={neighbor.id}
+                        type="button"
+                        onClick={() => setSelected(neighbor.id)}
+                        className="flex w-full items-center justify-between gap-2 rounded px-1 py-0.5 text-left text-xs hover:bg-accent"
+                      >
+                        <span className="truncate">{labels.get(neighbor.id)}</span>
+                        <span className="text-muted-foreground flex-shrink-0">
+                          {neighbor.weight} paper{neighbor.weight !== 1 && 's'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  {network.nodes.length} {mode === 'organization' ? 'organizations' : 'countries'} • {network.edges.length} links
+                  {network.hidden > 0 && ` • ${network.hidden} smaller ones hidden`}
+                </p>
+              )}
+
+              {/* Legend */}
+              <div className="space-y-1 border-t pt-3">
+                <p className="text-xs text-muted-foreground">Color: most common org type • Size: authors</p>
+                {Array.from(typeColors).map(([type, color]) => (
+                  <div key={type} className="flex items-center gap-2 text-xs">
+                    <span className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+                    <span className={cn(selectedNode && selectedNode.org_type !== type && 'text-muted-foreground')}>{type}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,159 @@
+import { useMemo, useState } from 'react'
+import { geoNaturalEarth1, geoPath } from 'd3-geo'
+import { feature } from 'topojson-client'
+import type { Topology, GeometryCollection } from 'topojson-specification'
+import type { Feature, Geometry } from 'geojson'
+import { numericToAlpha2 } from 'i18n-iso-countries'
+import worldTopology from 'world-atlas/countries-110m.json'
+import { Map as MapIcon } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { formatNumber, formatPercentage } from '@/lib/utils'
+import type { CountryStats } from '@/types/api'
+
+type MapScale = 'absolute' | 'percentage'
+
+type CountryFeature = Feature<Geometry, { name: string }> & { id?: string | number }
+
+const WIDTH = 960
+const HEIGHT = 500
+
+// Geometry is bundled with the app, so the map works without network access
+const topology = worldTopology as unknown as Topology<{ countries: GeometryCollection<{ name: string }> }>
+const countryFeatures = (feature(topology, topology.objects.countries) as unknown as {
+  features: CountryFeature[]
+}).features
+
+const projection = geoNaturalEarth1().fitSize([WIDTH, HEIGHT], {
+  type: 'FeatureCollection',
+  features: countryFeatures,
+})
+const pathGenerator = geoPath(projection)
+
+interface CountryMapProps {
+  countries: CountryStats[]
+  onSelectCountry: (countryCode: string) => void
+}
+
+export default function CountryMap({ countries, onSelectCountry }: CountryMapProps) {
+  const [scale, setScale] = useState<MapScale>('absolute')
+  const [hovered, setHovered] = useState<{ name: string; stats?: CountryStats; x: number; y: number } | null>(null)
+
+  const statsByCode = useMemo(() => {
+    const map = new Map<string, CountryStats>()
+    for (const country of countries) {
+      if (country.country_code) map.set(country.country_code.toUpperCase(), country)
+      map.set(country.country.toLowerCase(), country)
+    }
+    return map
+  }, [countries])
+
+  const paths = useMemo(() => countryFeatures.map(f => ({
+    id: String(f.id ?? f.properties.name),
+    name: f.properties.name,
+    code: f.id !== undefined ? numericToAlpha2(f.id) : undefined,
+    d: pathGenerator(f) || '',
+  })), [])
+
+  const max = Math.max(0, ...countries.map(c => c.author_count))
+
+  // Absolute is relative to the largest country; percentage uses a fixed 0-100% domain,
+  // so a country's shade reflects its share of all authors and is comparable across tasks
+  const intensityOf = (stats: CountryStats) => {
+    if (scale === 'percentage') return Math.min(1, stats.percentage / 100)
+    // Square root keeps small countries visible next to a dominant one
+    return max > 0 ? Math.sqrt(stats.author_count / max) : 0
+  }
+
+  const fillFor = (stats?: CountryStats) => {
+    if (!stats || stats.author_count <= 0) return undefined
+    return `rgba(59, 130, 246, ${(0.15 + 0.85 * intensityOf(stats)).toFixed(3)})`
+  }
+
+  const formatValue = (stats: CountryStats) =>
+    scale === 'absolute' ? `${formatNumber(stats.author_count)} authors` : formatPercentage(stats.percentage)
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <MapIcon className="h-4 sm:h-5 w-4 sm:w-5" />
+              Author Map
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Click a country to see its papers
+            </CardDescription>
+          </div>
+          <div className="flex gap-1 rounded-md bg-muted p-1 self-start">
+            {(['absolute', 'percentage'] as const).map(option => (
+              <Button
+                key={option}
+                variant={scale === option ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 text-xs capitalize"
+                onClick={() => setScale(option)}
+              >
+                {option}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="relative" onMouseLeave={() => setHovered(null)}>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+            {paths.map(path => {
+              const stats = (path.code && statsByCode.get(path.code)) || statsByCode.get(path.name.toLowerCase())
+              const fill = fillFor(stats)
+              return (
+                <path
+                  key={path.id}
+                  d={path.d}
+                  fill={fill}
+                  className={fill
+                    ? 'stroke-background cursor-pointer hover:opacity-80 transition-opacity'
+                    : 'fill-muted stroke-background'}
+                  strokeWidth={0.5}
+                  onMouseMove={(e) => {
+                    const rect = e.currentTarget.ownerSVGElement!.getBoundingClientRect()
+                    setHovered({ name: stats?.country || path.name, stats, x: e.clientX - rect.left, y: e.clientY - rect.top })
+                  }}
+                  onClick={() => stats && onSelectCountry(stats.country_code || stats.country)}
+                />
+              )
+            })}
+          </svg>
+
+          {hovered && (
+            <div
+              className="pointer-events-none absolute z-10 rounded-md border bg-popover px-3 py-2 text-xs shadow-md"
+              style={{ left: hovered.x + 12, top: hovered.y + 12 }}
+            >
+              <p className="font-medium">{hovered.name}</p>
+              {hovered.stats ? (
+                <>
+                  <p>{formatValue(hovered.stats)}</p>
+                  <p className="text-muted-foreground">
+                    {formatNumber(hovered.stats.author_count)} authors • {formatNumber(hovered.stats.org_count)} orgs
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">No authors</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Legend */}
+        <div className="flex items-center gap-2 mt-3 text-xs text-muted-foreground">
+          <span>{scale === 'absolute' ? 0 : formatPercentage(0)}</span>
+          <div className="h-2 w-32 rounded-full bg-gradient-to-r from-blue-500/15 to-blue-500" />
+          <span>{scale === 'absolute' ? `${formatNumber(max)} authors` : formatPercentage(100)}</span>
+          <span>• {scale === 'absolute' ? 'square root scale' : 'share of all authors'}</span>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
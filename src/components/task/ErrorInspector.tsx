@@ -0,0 +1,175 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertTriangle, ChevronDown, ChevronRight, Copy, FileX } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useToast } from '@/components/ui/use-toast'
+import { paperPath } from '@/lib/routes'
+import { PIPELINE_STAGES, STAGE_LABELS } from '@/lib/stages'
+import { truncate } from '@/lib/utils'
+import type { PaperData, TaskError } from '@/types/api'
+
+interface ErrorInspectorProps {
+  taskId: string
+  errors: TaskError[]
+  // Count reported by the server; papers are only available once results are saved
+  failedCount: number
+  papers?: PaperData[]
+}
+
+const formatError = (error: TaskError) =>
+  [`[${error.timestamp}] ${error.stage}: ${error.error}`, error.traceback].filter(Boolean).join('\n')
+
+// Errors grouped by stage, pipeline stages first in order
+function groupByStage(errors: TaskError[]): [string, TaskError[]][] {
+  const groups = new Map<string, TaskError[]>()
+  errors.forEach(error => groups.set(error.stage, [...(groups.get(error.stage) || []), error]))
+  const order = (stage: string) => {
+    const index = PIPELINE_STAGES.indexOf(stage as typeof PIPELINE_STAGES[number])
+    return index === -1 ? PIPELINE_STAGES.length : index
+  }
+  return Array.from(groups).sort(([a], [b]) => order(a) - order(b))
+}
+
+export default function ErrorInspector({ taskId, errors, failedCount, papers = [] }: ErrorInspectorProps) {
+  const { toast } = useToast()
+  const [expanded, setExpanded] = useState<number[]>([])
+
+  const failedPapers = papers.filter(p => p.processing_status !== 'completed')
+  // Errors that name a paper link to it
+  const paperFor = (error: TaskError) =>
+    papers.find(p => error.error.includes(p.paper_id) || (error.traceback?.includes(p.paper_id) ?? false))
+
+  const copy = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      toast({ title: 'Copied to clipboard' })
+    } catch {
+      toast({ title: 'Copy failed', description: 'Clipboard access is not available', variant: 'destructive' })
+    }
+  }
+
+  const toggle = (index: number) => {
+    setExpanded(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <AlertTriangle className="h-4 sm:h-5 w-4 sm:w-5 text-red-500" />
+              Errors
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              {errors.length} error{errors.length !== 1 && 's'} • {failedCount} failed paper{failedCount !== 1 && 's'}
+            </CardDescription>
+          </div>
+          {errors.length > 0 && (
+            <Button variant="outline" size="sm" onClick={() => copy(errors.map(formatError).join('\n\n'))}>
+              <Copy className="mr-1 h-4 w-4" />
+              Copy All
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Errors by stage */}
+        {groupByStage(errors).map(([stage, stageErrors]) => (
+          <div key={stage} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <span className={`h-2 w-2 rounded-full ${STAGE_LABELS[stage]?.color || 'bg-gray-400'}`} />
+              <h4 className="text-xs sm:text-sm font-medium">{STAGE_LABELS[stage]?.label || stage}</h4>
+              <Badge variant="secondary" className="text-xs">{stageErrors.length}</Badge>
+            </div>
+            {stageErrors.map(error => {
+              const index = errors.indexOf(error)
+              const isOpen = expanded.includes(index)
+              const paper = paperFor(error)
+              return (
+                <div key={index} className="rounded-lg border text-xs sm:text-sm">
+                  <div className="flex items-start gap-2 p-2 sm:p-3">
+                    <button
+                      type="button"
+                      onClick={() => toggle(index)}
+                      className="mt-0.5 text-muted-foreground disabled:opacity-30"
+                      disabled={!error.traceback}
+                      title={error.traceback ? 'Show traceback' : 'No traceback'}
+                    >
+                      {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </button>
+                    <div className="min-w-0 flex-1">
+                      <p className="break-words">{error.error}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(error.timestamp).toLocaleString()}
+                        {paper && (
+                          <>
+                            {' • '}
+                            <Link to={paperPath(taskId, paper.paper_id)} className="hover:underline">
+                              {truncate(paper.title, 60)}
+                            </Link>
+                          </>
+                        )}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 flex-shrink-0"
+                      onClick={() => copy(formatError(error))}
+                      title="Copy error"
+                    >
+                      <Copy className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  {isOpen && error.traceback && (
+                    <pre className="border-t bg-muted p-3 text-xs overflow-auto max-h-72">{error.traceback}</pre>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        ))}
+
+        {/* Failed papers */}
+        {failedCount > 0 && (
+          <div className="space-y-2">
+            <h4 className="flex items-center gap-2 text-xs sm:text-sm font-medium">
+              <FileX className="h-4 w-4 text-muted-foreground" />
+              Failed Papers
+            </h4>
+            {failedPapers.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs sm:text-sm">
+                  <tbody>
+                    {failedPapers.map(paper => (
+                      <tr key={paper.paper_id} className="border-b">
+                        <td className="py-2 px-2 font-mono text-xs text-muted-foreground">{paper.paper_id}</td>
+                        <td className="py-2 px-2">
+                          <Link to={paperPath(taskId, paper.paper_id)} className="hover:underline">
+                            {truncate(paper.title, 80)}
+                          </Link>
+                        </td>
+                        <td className="py-2 px-2 text-right">
+                          <Badge variant="secondary" className="text-xs">{paper.processing_status}</Badge>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-xs text-muted-foreground">
+                {papers.length > 0
+                  ? 'Failed papers were left out of the saved results.'
+                  : 'The list of papers is available once the task has saved results.'}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,234 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { ClipboardCheck, Loader2, Play, AlertTriangle, Target } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Progress } from '@/components/ui/progress'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { formatPercentage } from '@/lib/utils'
+import type { EvaluationResponse } from '@/types/api'
+
+// Remember the last gold standard used so weekly grading is one click
+const GOLD_PATH_KEY = 'evaluation.goldStandardPath'
+
+interface EvaluationPanelProps {
+  taskId: string
+  evaluation?: EvaluationResponse
+  isRunning: boolean
+  error?: Error | null
+  onRun: (goldStandardPath?: string) => void
+}
+
+export default function EvaluationPanel({ taskId, evaluation, isRunning, error, onRun }: EvaluationPanelProps) {
+  const [goldPath, setGoldPath] = useState(() => localStorage.getItem(GOLD_PATH_KEY) || '')
+
+  const handleRun = () => {
+    const path = goldPath.trim()
+    if (path) {
+      localStorage.setItem(GOLD_PATH_KEY, path)
+    } else {
+      localStorage.removeItem(GOLD_PATH_KEY)
+    }
+    onRun(path || undefined)
+  }
+
+  const metrics = evaluation?.extraction_metrics
+
+  const prfData = metrics ? [
+    {
+      name: 'Authors',
+      precision: metrics.author_precision * 100,
+      recall: metrics.author_recall * 100,
+      f1: metrics.author_f1 * 100,
+    },
+    {
+      name: 'Affiliations',
+      precision: metrics.affiliation_precision * 100,
+      recall: metrics.affiliation_recall * 100,
+      f1: metrics.affiliation_f1 * 100,
+    },
+  ] : []
+
+  const accuracyData = metrics ? [
+    { name: 'Org normalization', value: metrics.org_normalization_accuracy * 100 },
+    { name: 'Country', value: metrics.country_accuracy * 100 },
+    { name: 'Hierarchical', value: metrics.hierarchical_accuracy * 100 },
+  ] : []
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Run Evaluation */}
+      <Card>
+        <CardHeader className="pb-2 sm:pb-4">
+          <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+            <ClipboardCheck className="h-4 sm:h-5 w-4 sm:w-5" />
+            Run Evaluation
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            Compare extracted authors and affiliations against a gold standard
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="gold_standard_path">Gold Standard Path (Optional)</Label>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                id="gold_standard_path"
+                value={goldPath}
+                onChange={(e) => setGoldPath(e.target.value)}
+                placeholder="e.g., data/gold_standard.json"
+                className="font-mono"
+                disabled={isRunning}
+              />
+              <Button onClick={handleRun} disabled={isRunning} className="gap-2">
+                {isRunning ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Evaluating...
+                  </>
+                ) : (
+                  <>
+                    <Play className="h-4 w-4" />
+                    {evaluation ? 'Re-run' : 'Evaluate'}
+                  </>
+                )}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Path on the backend server. Leave empty to use the default gold standard, or{' '}
+              <Link to={`/annotate/${taskId}`} className="text-primary hover:underline">
+                annotate this task
+              </Link>{' '}
+              to build one.
+            </p>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Evaluation Failed</AlertTitle>
+              <AlertDescription>{error.message}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {!metrics && !isRunning && (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <Target className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">No evaluation yet</h3>
+            <p className="text-muted-foreground text-sm">
+              Run an evaluation to see extraction quality metrics
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {evaluation && metrics && (
+        <>
+          {/* Summary */}
+          <div className="grid gap-3 sm:gap-4 grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2 space-y-0">
+                <CardTitle className="text-xs sm:text-sm font-medium">Overall Score</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-xl sm:text-2xl font-bold">
+                  {formatPercentage(evaluation.overall_score * 100)}
+                </div>
+                <Progress value={evaluation.overall_score * 100} className="h-1 mt-2" />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2 space-y-0">
+                <CardTitle className="text-xs sm:text-sm font-medium">Hallucination Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-xl sm:text-2xl font-bold ${
+                  metrics.hallucination_rate > 0.1 ? 'text-red-500' : 'text-green-500'
+                }`}>
+                  {formatPercentage(metrics.hallucination_rate * 100)}
+                </div>
+                <p className="text-xs text-muted-foreground">Authors not in gold standard</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2 space-y-0">
+                <CardTitle className="text-xs sm:text-sm font-medium">Papers Evaluated</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-xl sm:text-2xl font-bold">
+                  {evaluation.evaluated_papers}/{evaluation.gold_standard_papers}
+                </div>
+                <p className="text-xs text-muted-foreground">Matched gold standard papers</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2 space-y-0">
+                <CardTitle className="text-xs sm:text-sm font-medium">Evaluated At</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-sm font-medium">
+                  {new Date(evaluation.timestamp).toLocaleString()}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Charts */}
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Precision / Recall / F1</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={prfData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                    <YAxis domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" />
+                    <Tooltip formatter={(value: number) => formatPercentage(value)} />
+                    <Legend wrapperStyle={{ fontSize: '12px' }} />
+                    <Bar dataKey="precision" name="Precision" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="recall" name="Recall" fill="#10b981" radius={[4, 4, 0, 0]} />
+                    <Bar dataKey="f1" name="F1" fill="#8b5cf6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Normalization Accuracy</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={accuracyData} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" domain={[0, 100]} tick={{ fontSize: 10 }} unit="%" />
+                    <YAxis type="category" dataKey="name" width={110} tick={{ fontSize: 11 }} />
+                    <Tooltip formatter={(value: number) => formatPercentage(value)} />
+                    <Bar dataKey="value" name="Accuracy" fill="#f59e0b" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+import { useEffect, useRef, useState } from 'react'
+import { Terminal, Download, Pause, Play, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { eventsToLog } from '@/lib/events'
+import { STAGE_LABELS } from '@/lib/stages'
+import { cn, downloadFile } from '@/lib/utils'
+import { useEventLogStore, type EventSeverity, type TaskEvent } from '@/store'
+
+interface EventLogProps {
+  taskId: string
+}
+
+const SEVERITIES: EventSeverity[] = ['info', 'warning', 'error']
+
+const severityColors: Record<EventSeverity, string> = {
+  info: 'text-muted-foreground',
+  warning: 'text-yellow-600 dark:text-yellow-400',
+  error: 'text-red-600 dark:text-red-400',
+}
+
+// Stable empty list so the selector doesn't return a new array on every render
+const NO_EVENTS: TaskEvent[] = []
+// Rows rendered at once; earlier ones are loaded on request. The download has them all.
+const RENDER_LIMIT = 500
+
+const formatTime = (iso: string) => {
+  const date = new Date(iso)
+  return `${date.toLocaleTimeString([], { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`
+}
+
+export default function EventLog({ taskId }: EventLogProps) {
+  const events = useEventLogStore(state => state.events[taskId] || NO_EVENTS)
+  const clear = useEventLogStore(state => state.clear)
+  const [stage, setStage] = useState('all')
+  const [severities, setSeverities] = useState<EventSeverity[]>(SEVERITIES)
+  const [paused, setPaused] = useState(false)
+  const [renderLimit, setRenderLimit] = useState(RENDER_LIMIT)
+  // First rendered event while paused, so rows don't shift under the reader as new ones arrive
+  const [anchorId, setAnchorId] = useState<number | null>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  const stages = Array.from(new Set(events.map(e => e.stage).filter((s): s is string => !!s)))
+  const visible = events.filter(e =>
+    severities.includes(e.severity) && (stage === 'all' || e.stage === stage)
+  )
+
+  const tailStart = Math.max(0, visible.length - renderLimit)
+  const anchorIndex = anchorId === null ? -1 : visible.findIndex(e => e.id >= anchorId)
+  const start = paused && anchorIndex !== -1 ? anchorIndex : tailStart
+  const rendered = visible.slice(start)
+  // Once the store is at its limit the length stays put, so follow the newest id instead
+  const lastId = visible[visible.length - 1]?.id
+
+  useEffect(() => {
+    if (paused || !listRef.current) return
+    listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [lastId, paused])
+
+  const pause = (next: boolean) => {
+    setPaused(next)
+    setAnchorId(next ? rendered[0]?.id ?? null : null)
+  }
+
+  const showEarlier = () => {
+    const earlier = Math.max(0, start - RENDER_LIMIT)
+    setRenderLimit(visible.length - earlier)
+    if (paused) setAnchorId(visible[earlier]?.id ?? null)
+  }
+
+  // Scrolling up pauses autoscroll, scrolling back to the bottom resumes it
+  const handleScroll = () => {
+    const el = listRef.current
+    if (!el) return
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 8
+    if (atBottom === paused) pause(!atBottom)
+  }
+
+  const toggleSeverity = (severity: EventSeverity) => {
+    setSeverities(prev => prev.includes(severity) ? prev.filter(s => s !== severity) : [...prev, severity])
+  }
+
+  const handleDownload = () => {
+    downloadFile(eventsToLog(visible), `task_${taskId.slice(0, 8)}_events.log`, 'text/plain')
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <Terminal className="h-4 sm:h-5 w-4 sm:w-5" />
+              Event Log
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Messages received from the server while this page was open
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => pause(!paused)}>
+              {paused ? <Play className="mr-1 h-4 w-4" /> : <Pause className="mr-1 h-4 w-4" />}
+              {paused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDownload} disabled={visible.length === 0}>
+              <Download className="mr-1 h-4 w-4" />
+              Download
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => clear(taskId)} disabled={events.length === 0} title="Clear log">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={stage} onValueChange={setStage}>
+            <SelectTrigger className="h-8 w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All stages</SelectItem>
+              {stages.map(s => (
+                <SelectItem key={s} value={s}>{STAGE_LABELS[s]?.label || s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {SEVERITIES.map(severity => (
+            <Button
+              key={severity}
+              variant={severities.includes(severity) ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-8 text-xs capitalize"
+              onClick={() => toggleSeverity(severity)}
+            >
+              {severity}
+              <span className="ml-1 text-muted-foreground">
+                {events.filter(e => e.severity === severity).length}
+              </span>
+            </Button>
+          ))}
+          <span className="ml-auto text-xs text-muted-foreground">
+            {visible.length} of {events.length} events
+          </span>
+        </div>
+
+        {/* Entries */}
+        <div
+          ref={listRef}
+          onScroll={handleScroll}
+          className="h-72 overflow-y-auto rounded-md border bg-muted/30 p-2 font-mono text-[11px] sm:text-xs"
+        >
+          {visible.length === 0 ? (
+            <p className="py-8 text-center text-muted-foreground">
+              {events.length === 0 ? 'No events received yet' : 'No events match the filters'}
+            </p>
+          ) : (
+            <>
+              {start > 0 && (
+                <button
+                  type="button"
+                  onClick={showEarlier}
+                  className="mb-1 w-full rounded py-1 text-center text-muted-foreground hover:bg-accent"
+                >
+                  Show {Math.min(start, RENDER_LIMIT)} earlier events
+                </button>
+              )}
+              {rendered.map(event => (
+                <div key={event.id} className="flex gap-2 py-0.5">
+                  <span className="flex-shrink-0 text-muted-foreground">{formatTime(event.received_at)}</span>
+                  <span className={cn('w-14 flex-shrink-0 uppercase', severityColors[event.severity])}>
+                    {event.severity}
+                  </span>
+                  {event.stage && (
+                    <span className="flex-shrink-0 text-muted-foreground">[{event.stage}]</span>
+                  )}
+                  <span className="break-all">{event.message}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
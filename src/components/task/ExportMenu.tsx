@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Download, FileDown, FileJson, FileSpreadsheet, BookMarked, Server } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { getDownloadUrl, getDownloadSize } from '@/lib/api'
+import { authorsToCsv, organizationsToCsv, papersToBibtex, papersToCsv } from '@/lib/export'
+import { downloadFile, formatBytes } from '@/lib/utils'
+import type { AnalyticsData, PaperData } from '@/types/api'
+
+interface ExportMenuProps {
+  taskId: string
+  outputFiles: Record<string, string>
+  papers: PaperData[]
+  analytics?: AnalyticsData
+}
+
+function fileType(filename: string): string {
+  const ext = filename.split('.').pop()
+  return ext && ext !== filename ? ext.toUpperCase() : 'FILE'
+}
+
+export default function ExportMenu({ taskId, outputFiles, papers, analytics }: ExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const filenames = Object.keys(outputFiles)
+
+  const { data: sizes = {} } = useQuery({
+    queryKey: ['downloadSizes', taskId, filenames],
+    queryFn: async () => {
+      const entries = await Promise.all(filenames.map(async name => {
+        const size = await getDownloadSize(taskId, name).catch(() => undefined)
+        return [name, size] as const
+      }))
+      return Object.fromEntries(entries) as Record<string, number | undefined>
+    },
+    enabled: open && filenames.length > 0,
+    staleTime: Infinity,
+  })
+
+  const prefix = `task_${taskId.slice(0, 8)}`
+
+  // Each export is disabled when the data it's built from is empty
+  const clientExports = [
+    {
+      label: 'Papers (CSV)',
+      icon: FileSpreadsheet,
+      empty: papers.length === 0,
+      run: () => downloadFile(papersToCsv(papers), `${prefix}_papers.csv`, 'text/csv'),
+    },
+    {
+      label: 'Authors (CSV)',
+      icon: FileSpreadsheet,
+      empty: papers.length === 0,
+      run: () => downloadFile(authorsToCsv(papers), `${prefix}_authors.csv`, 'text/csv'),
+    },
+    {
+      label: 'Authors (Excel CSV)',
+      icon: FileSpreadsheet,
+      empty: papers.length === 0,
+      run: () => downloadFile(authorsToCsv(papers, true), `${prefix}_authors_excel.csv`, 'text/csv'),
+    },
+    ...(analytics ? [
+      {
+        label: 'Organizations (CSV)',
+        icon: FileSpreadsheet,
+        empty: analytics.top_organizations.length === 0,
+        run: () => downloadFile(organizationsToCsv(analytics), `${prefix}_organizations.csv`, 'text/csv'),
+      },
+      {
+        label: 'Organizations (Excel CSV)',
+        icon: FileSpreadsheet,
+        empty: analytics.top_organizations.length === 0,
+        run: () => downloadFile(organizationsToCsv(analytics, true), `${prefix}_organizations_excel.csv`, 'text/csv'),
+      },
+    ] : []),
+    {
+      label: 'Papers (JSON)',
+      icon: FileJson,
+      empty: papers.length === 0,
+      run: () => downloadFile(JSON.stringify(papers, null, 2), `${prefix}_papers.json`, 'application/json'),
+    },
+    {
+      label: 'Papers (BibTeX)',
+      icon: BookMarked,
+      empty: papers.length === 0,
+      run: () => downloadFile(papersToBibtex(papers), `${prefix}_papers.bib`, 'application/x-bibtex'),
+    },
+  ]
+
+  return (
+    <DropdownMenu open={open} onOpenChange={setOpen}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="gap-2" size="sm">
+          <Download className="h-4 w-4" />
+          <span className="hidden sm:inline">Download</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        {filenames.length > 0 && (
+          <>
+            <DropdownMenuLabel className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Server className="h-3 w-3" />
+              Server Files
+            </DropdownMenuLabel>
+            {filenames.map(name => (
+              <DropdownMenuItem key={name} asChild>
+                <a href={getDownloadUrl(taskId, name)} download className="gap-2">
+                  <FileDown className="h-4 w-4 flex-shrink-0" />
+                  <span className="truncate flex-1">{name}</span>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">
+                    {fileType(name)}
+                    {sizes[name] !== undefined && ` • ${formatBytes(sizes[name]!)}`}
+                  </span>
+                </a>
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+          </>
+        )}
+        <DropdownMenuLabel className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Download className="h-3 w-3" />
+          Generated from Loaded Data
+        </DropdownMenuLabel>
+        {clientExports.map(item => (
+          <DropdownMenuItem
+            key={item.label}
+            onSelect={item.run}
+            disabled={item.empty}
+            className="gap-2"
+          >
+            <item.icon className="h-4 w-4" />
+            {item.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Grid3x3, X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { buildOrgTypeMatrix, cellKey, paperOrgTypes } from '@/lib/collaboration'
+import { paperPath } from '@/lib/routes'
+import { cn, formatPercentage, truncate } from '@/lib/utils'
+import type { PaperData } from '@/types/api'
+
+interface OrgTypeMatrixProps {
+  taskId: string
+  papers: PaperData[]
+}
+
+export default function OrgTypeMatrix({ taskId, papers }: OrgTypeMatrixProps) {
+  const matrix = useMemo(() => buildOrgTypeMatrix(papers), [papers])
+  const [selected, setSelected] = useState<[string, string] | null>(null)
+
+  const count = (a: string, b: string) => matrix.cells[cellKey(a, b)]?.length || 0
+  const maxCount = Math.max(1, ...Object.values(matrix.cells).map(c => c.length))
+  const selectedKey = selected && cellKey(...selected)
+  const selectedPapers = selectedKey ? matrix.cells[selectedKey] || [] : []
+  const singleShare = matrix.typed > 0 ? matrix.single / matrix.typed * 100 : 0
+
+  const toggle = (a: string, b: string) => {
+    setSelected(selectedKey === cellKey(a, b) ? null : [a, b])
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+          <Grid3x3 className="h-4 sm:h-5 w-4 sm:w-5" />
+          Org Type Collaboration
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Papers whose authors span both types. The diagonal counts papers written within a single type. Click a cell to see its papers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {matrix.types.length === 0 ? (
+          <p className="text-xs sm:text-sm text-muted-foreground text-center py-8">No authors with an org type</p>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-3 gap-2 sm:gap-4 text-center">
+              <div className="rounded-md border p-2 sm:p-3">
+                <p className="text-lg sm:text-2xl font-bold">{formatPercentage(singleShare)}</p>
+                <p className="text-xs text-muted-foreground">Single-type ({matrix.single})</p>
+              </div>
+              <div className="rounded-md border p-2 sm:p-3">
+                <p className="text-lg sm:text-2xl font-bold">{formatPercentage(100 - singleShare)}</p>
+                <p className="text-xs text-muted-foreground">Mixed ({matrix.mixed})</p>
+              </div>
+              <div className="rounded-md border p-2 sm:p-3">
+                <p className="text-lg sm:text-2xl font-bold">{matrix.untyped}</p>
+                <p className="text-xs text-muted-foreground">Without org type</p>
+              </div>
+            </div>
+
+            {/* Heatmap */}
+            <div className="overflow-x-auto">
+              <table className="text-xs sm:text-sm border-separate border-spacing-1">
+                <thead>
+                  <tr>
+                    <th />
+                    {matrix.types.map(type => (
+                      <th key={type} className="px-2 py-1 font-medium text-muted-foreground capitalize whitespace-nowrap">
+                        {type}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.types.map(row => (
+                    <tr key={row}>
+                      <th className="px-2 py-1 text-right font-medium text-muted-foreground capitalize whitespace-nowrap">
+                        {row}
+                      </th>
+                      {matrix.types.map(column => {
+                        const value = count(row, column)
+                        const intensity = value / maxCount
+                        const isSelected = selectedKey === cellKey(row, column)
+                        return (
+                          <td key={column} className="p-0">
+                            <button
+                              type="button"
+                              disabled={value === 0}
+                              onClick={() => toggle(row, column)}
+                              title={row === column
+                                ? `${value} ${row}-only paper${value !== 1 ? 's' : ''}`
+                                : `${value} paper${value !== 1 ? 's' : ''} with ${row} and ${column} authors`}
+                              className={cn(
+                                'h-10 w-full min-w-[3.5rem] rounded text-center tabular-nums transition-colors',
+                                value === 0 ? 'bg-muted/40 text-muted-foreground' : 'hover:ring-2 hover:ring-ring',
+                                intensity > 0.5 && 'text-white',
+                                row === column && 'font-semibold',
+                                isSelected && 'ring-2 ring-primary'
+                              )}
+                              style={value > 0 ? { backgroundColor: `rgba(59, 130, 246, ${0.15 + intensity * 0.85})` } : undefined}
+                            >
+                              {value}
+                            </button>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Drill-down */}
+            {selected && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <h4 className="text-xs sm:text-sm font-medium capitalize">
+                    {selected[0] === selected[1] ? `${selected[0]} only` : `${selected[0]} + ${selected[1]}`}
+                    <span className="ml-2 font-normal normal-case text-muted-foreground">
+                      {selectedPapers.length} paper{selectedPapers.length !== 1 && 's'}
+                    </span>
+                  </h4>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={() => setSelected(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="max-h-96 overflow-auto">
+                  <table className="w-full text-xs sm:text-sm">
+                    <tbody>
+                      {selectedPapers.map(paper => (
+                        <tr key={paper.paper_id} className="border-b">
+                          <td className="py-2 px-2">
+                            <Link to={paperPath(taskId, paper.paper_id)} className="hover:underline">
+                              {truncate(paper.title, 80)}
+                            </Link>
+                          </td>
+                          <td className="py-2 px-2 text-right">
+                            <div className="flex flex-wrap justify-end gap-1">
+                              {paperOrgTypes(paper).map(type => (
+                                <Badge key={type} variant="outline" className="text-xs">{type}</Badge>
+                              ))}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
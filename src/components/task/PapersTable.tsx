@@ -0,0 +1,309 @@
+import { useMemo } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, Search, X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  filterPapers,
+  sortPapers,
+  paperFacets,
+  paperConfidence,
+  authorCountry,
+  PAPER_SORT_KEYS,
+  type PaperFilters,
+  type PaperSortKey,
+} from '@/lib/papers'
+import { paperPath } from '@/lib/routes'
+import { cn, formatPercentage, truncate } from '@/lib/utils'
+import type { PaperData } from '@/types/api'
+
+const PAGE_SIZE = 25
+
+// Filter keys shared with other views that link into a filtered papers list
+const FILTER_PARAMS = ['q', 'category', 'country', 'org_type', 'status', 'min_conf'] as const
+
+type SortDirection = 'asc' | 'desc'
+
+// Numeric URL params fall back to a default when missing or malformed, e.g. ?page=abc
+function numberParam(value: string | null, fallback: number): number {
+  const n = Number(value)
+  return value !== null && Number.isFinite(n) ? n : fallback
+}
+
+function sortKeyParam(value: string | null): PaperSortKey {
+  return PAPER_SORT_KEYS.find(key => key === value) || 'title'
+}
+
+interface SortHeaderProps {
+  label: string
+  column: PaperSortKey
+  sortKey: PaperSortKey
+  sortDir: SortDirection
+  onSort: (key: PaperSortKey) => void
+  className?: string
+}
+
+function SortHeader({ label, column, sortKey, sortDir, onSort, className }: SortHeaderProps) {
+  const Icon = sortKey !== column ? ArrowUpDown : sortDir === 'asc' ? ArrowUp : ArrowDown
+  return (
+    <th className={cn('py-2 px-2', className)}>
+      <button
+        onClick={() => onSort(column)}
+        className={cn(
+          'inline-flex items-center gap-1 hover:text-foreground transition-colors',
+          sortKey === column ? 'text-foreground' : 'text-muted-foreground'
+        )}
+      >
+        {label}
+        <Icon className="h-3 w-3" />
+      </button>
+    </th>
+  )
+}
+
+interface FilterSelectProps {
+  value: string | null
+  placeholder: string
+  options: { value: string; label: string }[]
+  onChange: (value: string | undefined) => void
+}
+
+function FilterSelect({ value, placeholder, options, onChange }: FilterSelectProps) {
+  return (
+    <Select value={value || 'all'} onValueChange={(next) => onChange(next === 'all' ? undefined : next)}>
+      <SelectTrigger className="w-full sm:w-40">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">{placeholder}</SelectItem>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+interface PapersTableProps {
+  taskId: string
+  papers: PaperData[]
+}
+
+export default function PapersTable({ taskId, papers }: PapersTableProps) {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters: PaperFilters = {
+    search: searchParams.get('q') || '',
+    category: searchParams.get('category') || '',
+    country: searchParams.get('country') || '',
+    orgType: searchParams.get('org_type') || '',
+    status: searchParams.get('status') || '',
+    minConfidence: numberParam(searchParams.get('min_conf'), 0) / 100,
+  }
+  const sortKey = sortKeyParam(searchParams.get('sort'))
+  const sortDir: SortDirection = searchParams.get('dir') === 'desc' ? 'desc' : 'asc'
+  const page = Math.max(1, Math.floor(numberParam(searchParams.get('page'), 1)))
+
+  const updateParams = (changes: Record<string, string | undefined>, resetPage = true) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev)
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) next.set(key, value)
+        else next.delete(key)
+      }
+      if (resetPage) next.delete('page')
+      return next
+    }, { replace: true })
+  }
+
+  const facets = useMemo(() => paperFacets(papers), [papers])
+  const filtered = sortPapers(filterPapers(papers, filters), sortKey, sortDir)
+
+  const pageCount = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE))
+  const currentPage = Math.min(page, pageCount)
+  const pageItems = filtered.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE)
+  const hasFilters = FILTER_PARAMS.some(key => searchParams.has(key))
+
+  const toggleSort = (key: PaperSortKey) => {
+    if (sortKey === key) {
+      updateParams({ sort: key, dir: sortDir === 'asc' ? 'desc' : 'asc' }, false)
+    } else {
+      updateParams({ sort: key, dir: key === 'title' ? 'asc' : 'desc' }, false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="text-sm sm:text-base">Processed Papers</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {filtered.length === papers.length
+            ? `${papers.length} papers`
+            : `${filtered.length} of ${papers.length} papers`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Filters */}
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={filters.search}
+              onChange={(e) => updateParams({ q: e.target.value || undefined })}
+              placeholder="Search title, author or affiliation"
+              className="pl-9"
+            />
+          </div>
+          <div className="grid grid-cols-2 sm:flex sm:flex-wrap gap-2">
+            <FilterSelect
+              value={searchParams.get('category')}
+              onChange={(value) => updateParams({ category: value })}
+              placeholder="All categories"
+              options={facets.categories.map(c => ({ value: c, label: c }))}
+            />
+            <FilterSelect
+              value={searchParams.get('country')}
+              onChange={(value) => updateParams({ country: value })}
+              placeholder="All countries"
+              options={facets.countries.map(c => ({ value: c.code, label: c.name }))}
+            />
+            <FilterSelect
+              value={searchParams.get('org_type')}
+              onChange={(value) => updateParams({ org_type: value })}
+              placeholder="All org types"
+              options={facets.orgTypes.map(t => ({ value: t, label: t }))}
+            />
+            <FilterSelect
+              value={searchParams.get('status')}
+              onChange={(value) => updateParams({ status: value })}
+              placeholder="All statuses"
+              options={facets.statuses.map(s => ({ value: s, label: s }))}
+            />
+            <FilterSelect
+              value={searchParams.get('min_conf')}
+              onChange={(value) => updateParams({ min_conf: value })}
+              placeholder="Any confidence"
+              options={[50, 70, 80, 90].map(n => ({ value: String(n), label: `≥ ${n}% confidence` }))}
+            />
+            {hasFilters && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => updateParams(Object.fromEntries(FILTER_PARAMS.map(key => [key, undefined])))}
+              >
+                <X className="h-4 w-4" />
+                Clear
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Table */}
+        <div className="overflow-x-auto -mx-4 sm:mx-0">
+          <table className="w-full text-xs sm:text-sm min-w-[700px]">
+            <thead>
+              <tr className="border-b text-left">
+                <SortHeader label="Title" column="title" sortKey={sortKey} sortDir={sortDir} onSort={toggleSort} />
+                <SortHeader label="Authors" column="authors" sortKey={sortKey} sortDir={sortDir} onSort={toggleSort} />
+                <th className="py-2 px-2 text-muted-foreground">Countries</th>
+                <th className="py-2 px-2 text-muted-foreground">Categories</th>
+                <SortHeader label="Published" column="published" sortKey={sortKey} sortDir={sortDir} onSort={toggleSort} />
+                <SortHeader label="Confidence" column="confidence" sortKey={sortKey} sortDir={sortDir} onSort={toggleSort} className="text-right" />
+              </tr>
+            </thead>
+            <tbody>
+              {pageItems.map(paper => {
+                const countries = Array.from(new Set(paper.authors.map(authorCountry).filter(Boolean)))
+                return (
+                  <tr key={paper.paper_id} className="border-b align-top hover:bg-accent/50">
+                    <td className="py-2 px-2 max-w-[320px]">
+                      <Link
+                        to={paperPath(taskId, paper.paper_id)}
+                        className="font-medium hover:text-primary transition-colors line-clamp-2"
+                      >
+                        {paper.title}
+                      </Link>
+                      <div className="flex items-center gap-2 mt-1">
+                        <span className="text-xs text-muted-foreground font-mono">{paper.paper_id}</span>
+                        {paper.processing_status !== 'completed' && (
+                          <Badge variant="secondary" className="text-xs">{paper.processing_status}</Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 max-w-[200px]">
+                      <span className="font-medium">{paper.authors.length}</span>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {truncate(paper.authors.slice(0, 2).map(a => a.name).join(', '), 40)}
+                      </p>
+                    </td>
+                    <td className="py-2 px-2 text-xs">{countries.join(', ') || '-'}</td>
+                    <td className="py-2 px-2">
+                      <div className="flex flex-wrap gap-1">
+                        {paper.categories.slice(0, 2).map(cat => (
+                          <Badge key={cat} variant="secondary" className="text-xs">{cat}</Badge>
+                        ))}
+                        {paper.categories.length > 2 && (
+                          <Badge variant="secondary" className="text-xs">+{paper.categories.length - 2}</Badge>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 px-2 whitespace-nowrap">
+                      {paper.published_date ? new Date(paper.published_date).toLocaleDateString() : '-'}
+                    </td>
+                    <td className="py-2 px-2 text-right">{formatPercentage(paperConfidence(paper) * 100)}</td>
+                  </tr>
+                )
+              })}
+              {pageItems.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="py-8 text-center text-muted-foreground">
+                    No papers match the current filters
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="flex items-center justify-between text-xs sm:text-sm">
+            <span className="text-muted-foreground">
+              Page {currentPage} of {pageCount}
+            </span>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                disabled={currentPage <= 1}
+                onClick={() => updateParams({ page: String(currentPage - 1) }, false)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                disabled={currentPage >= pageCount}
+                onClick={() => updateParams({ page: String(currentPage + 1) }, false)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
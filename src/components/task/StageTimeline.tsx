@@ -0,0 +1,125 @@
+import { Check, Activity } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { PIPELINE_STAGES, STAGE_LABELS, summarizeTimeline } from '@/lib/stages'
+import { cn, formatDuration } from '@/lib/utils'
+import type { StageTimeline as StageTimelineData } from '@/store'
+
+interface StageTimelineProps {
+  timeline?: StageTimelineData
+  // Whether the task is still running, so the last stage is in progress
+  live?: boolean
+}
+
+const formatThroughput = (perMinute?: number) => perMinute ? `${perMinute.toFixed(1)} papers/min` : '-'
+
+export default function StageTimeline({ timeline, live = false }: StageTimelineProps) {
+  const summary = timeline ? summarizeTimeline(timeline) : undefined
+  const seen = new Set(summary?.stages.map(s => s.stage))
+  const current = live ? summary?.stages[summary.stages.length - 1]?.stage : undefined
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+          <Activity className="h-4 sm:h-5 w-4 sm:w-5" />
+          Pipeline Timeline
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          {summary?.slowest
+            ? `Slowest stage: ${STAGE_LABELS[summary.slowest.stage]?.label || summary.slowest.stage} (${Math.round(summary.slowest.duration / Math.max(summary.total, 1) * 100)}% of the run)`
+            : 'When each stage started and ended'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!summary || summary.stages.length === 0 ? (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            No stage timeline was recorded for this task. Timelines are recorded in this browser while a task's progress is open.
+          </p>
+        ) : (
+          <>
+            {/* Stepper */}
+            <div className="flex items-start overflow-x-auto pb-1">
+              {PIPELINE_STAGES.map((stage, i) => {
+                const done = seen.has(stage) && stage !== current
+                const active = stage === current
+                const stats = summary.stages.filter(s => s.stage === stage)
+                const duration = stats.reduce((sum, s) => sum + s.duration, 0)
+                return (
+                  <div key={stage} className="flex flex-1 min-w-[80px] flex-col items-center text-center">
+                    <div className="flex w-full items-center">
+                      <div className={cn('h-0.5 flex-1', i === 0 ? 'invisible' : seen.has(stage) ? 'bg-primary' : 'bg-muted')} />
+                      <div
+                        className={cn(
+                          'flex h-7 w-7 flex-shrink-0 items-center justify-center rounded-full border-2 text-xs',
+                          done && 'border-primary bg-primary text-primary-foreground',
+                          active && 'border-primary',
+                          !done && !active && 'border-muted text-muted-foreground'
+                        )}
+                      >
+                        {done ? (
+                          <Check className="h-4 w-4" />
+                        ) : active ? (
+                          <span className={cn('h-2.5 w-2.5 rounded-full animate-pulse', STAGE_LABELS[stage].color)} />
+                        ) : (
+                          i + 1
+                        )}
+                      </div>
+                      <div className={cn('h-0.5 flex-1', i === PIPELINE_STAGES.length - 1 ? 'invisible' : seen.has(PIPELINE_STAGES[i + 1]) ? 'bg-primary' : 'bg-muted')} />
+                    </div>
+                    <p className={cn('mt-1 text-[10px] sm:text-xs', !seen.has(stage) && 'text-muted-foreground')}>
+                      {STAGE_LABELS[stage].label}
+                    </p>
+                    {stats.length > 0 && (
+                      <p className="text-[10px] text-muted-foreground">{formatDuration(duration / 1000)}</p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            {/* Gantt */}
+            <div className="space-y-2">
+              {summary.stages.map((stage, i) => (
+                <div key={i} className="grid grid-cols-[100px_1fr] sm:grid-cols-[160px_1fr_150px] items-center gap-2 text-xs">
+                  <span className="truncate">{STAGE_LABELS[stage.stage]?.label || stage.stage}</span>
+                  <div className="relative h-4 rounded bg-muted">
+                    <div
+                      className={cn(
+                        'absolute inset-y-0 rounded',
+                        STAGE_LABELS[stage.stage]?.color || 'bg-gray-400',
+                        live && stage.stage === current && 'animate-pulse'
+                      )}
+                      style={{
+                        left: `${stage.offset / Math.max(summary.total, 1) * 100}%`,
+                        width: `${Math.max(stage.duration / Math.max(summary.total, 1) * 100, 0.5)}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="hidden sm:block text-right text-muted-foreground">
+                    {formatDuration(stage.duration / 1000)} • {formatThroughput(stage.throughput)}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {/* Totals */}
+            <div className="grid grid-cols-3 gap-4 border-t pt-4 text-sm">
+              <div>
+                <p className="text-xs text-muted-foreground">Recorded</p>
+                <p className="font-medium">{formatDuration(summary.total / 1000)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Papers</p>
+                <p className="font-medium">{summary.papers}</p>
+              </div>
+              <div>
+                <p className="text-xs text-muted-foreground">Throughput</p>
+                <p className="font-medium">{formatThroughput(summary.throughput)}</p>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
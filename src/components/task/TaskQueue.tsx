@@ -0,0 +1,106 @@
+import { useQuery } from '@tanstack/react-query'
+import { ArrowUp, ArrowDown, Trash2, ListOrdered, Clock } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getTasks } from '@/lib/api'
+import { historyFor, secondsPerPaper } from '@/lib/estimate'
+import { queueStartTimes } from '@/lib/queue'
+import { formatDuration } from '@/lib/utils'
+import { useQueueStore } from '@/store'
+import type { TaskStatusResponse } from '@/types/api'
+
+interface TaskQueueProps {
+  activeTask?: TaskStatusResponse | null
+}
+
+export default function TaskQueue({ activeTask }: TaskQueueProps) {
+  const { items, remove, move } = useQueueStore()
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: () => getTasks(),
+    enabled: items.length > 0,
+  })
+
+  if (items.length === 0) return null
+
+  const startTimes = queueStartTimes(
+    activeTask,
+    items.map(item => item.request),
+    request => secondsPerPaper(historyFor(tasks, request.data_source)).expected
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+          <ListOrdered className="h-4 sm:h-5 w-4 sm:w-5" />
+          Queue
+          <Badge variant="secondary">{items.length}</Badge>
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Queued analyses start automatically in this order when the server is free.
+          The queue is stored in this browser.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {items.map((item, index) => (
+          <div
+            key={item.id}
+            className="flex items-center gap-3 rounded-lg border p-2 sm:p-3"
+          >
+            <span className="flex h-6 w-6 flex-shrink-0 items-center justify-center rounded-full bg-muted text-xs font-medium">
+              {index + 1}
+            </span>
+            <div className="min-w-0 flex-1">
+              <p className="font-mono text-xs sm:text-sm truncate">{item.request.query}</p>
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                <span className="capitalize">{item.request.data_source.replace('_', ' ')}</span>
+                <span>{item.request.max_papers} papers</span>
+                {(item.request.date_from || item.request.date_to) && (
+                  <span>{item.request.date_from || '...'} → {item.request.date_to || '...'}</span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  {index === 0 && !activeTask ? 'Starting...' : `Starts in ~${formatDuration(startTimes[index])}`}
+                </span>
+              </div>
+            </div>
+            <div className="flex flex-shrink-0 items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => move(item.id, -1)}
+                disabled={index === 0}
+                title="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => move(item.id, 1)}
+                disabled={index === items.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-red-500 hover:text-red-500"
+                onClick={() => remove(item.id)}
+                title="Remove from queue"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,109 @@
+import { useMemo, useState } from 'react'
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { CalendarRange } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { buildTimeline, type TimeBucket, type TimelineBreakdown } from '@/lib/timeline'
+import { CHART_COLORS } from '@/lib/utils'
+import type { PaperData } from '@/types/api'
+
+interface TimelinePanelProps {
+  papersByDate: Record<string, number>
+  papers: PaperData[]
+}
+
+export default function TimelinePanel({ papersByDate, papers }: TimelinePanelProps) {
+  const [bucket, setBucket] = useState<TimeBucket>('week')
+  const [breakdown, setBreakdown] = useState<TimelineBreakdown>('none')
+
+  const { rows, series, bucket: shownBucket } = useMemo(
+    () => buildTimeline(papersByDate, papers, bucket, breakdown),
+    [papersByDate, papers, bucket, breakdown]
+  )
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <CalendarRange className="h-4 sm:h-5 w-4 sm:w-5" />
+              Publication Timeline
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Papers per {shownBucket}
+              {shownBucket !== bucket && ` (the date range is too wide for ${bucket === 'day' ? 'days' : 'weeks'})`}
+              {breakdown !== 'none' && `, with top ${breakdown === 'country' ? 'countries' : 'organization types'} overlaid`}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={bucket} onValueChange={(value) => setBucket(value as TimeBucket)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Daily</SelectItem>
+                <SelectItem value="week">Weekly</SelectItem>
+                <SelectItem value="month">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={breakdown} onValueChange={(value) => setBreakdown(value as TimelineBreakdown)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No overlay</SelectItem>
+                <SelectItem value="country">By country</SelectItem>
+                <SelectItem value="org_type">By org type</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            No publication dates available for this task
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={350}>
+            <ComposedChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="bucket" tick={{ fontSize: 10 }} minTickGap={20} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+              <Tooltip />
+              <Legend wrapperStyle={{ fontSize: '12px' }} />
+              <Bar dataKey="total" name="All papers" fill="#3b82f6" fillOpacity={breakdown === 'none' ? 1 : 0.3} />
+              {series.map((name, i) => (
+                <Line
+                  key={name}
+                  type="monotone"
+                  dataKey={name}
+                  stroke={CHART_COLORS[(i + 1) % CHART_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,90 @@
+import { useEffect } from 'react'
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import { useToast } from '@/components/ui/use-toast'
+import { cancelTask } from '@/lib/api'
+import { isFinished } from '@/lib/notifications'
+import { useTaskStore } from '@/store'
+import type { TaskStatusResponse } from '@/types/api'
+
+// Cancelling is shown optimistically via the store flag; the cached task status
+// is left untouched so that any non-running status we see is the server's answer.
+export function useCancelTask() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { cancellingTaskIds, setCancelling } = useTaskStore()
+
+  const mutation = useMutation({
+    mutationFn: cancelTask,
+    onMutate: (taskId) => {
+      setCancelling(taskId, true)
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Cancellation Requested',
+        description: 'The task will stop after the current step',
+      })
+    },
+    onError: (error: Error, taskId) => {
+      setCancelling(taskId, false)
+      toast({
+        variant: 'destructive',
+        title: 'Cancel Failed',
+        description: error.message,
+      })
+    },
+    onSettled: (_data, _error, taskId) => {
+      queryClient.invalidateQueries({ queryKey: ['taskStatus', taskId] })
+      queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      queryClient.invalidateQueries({ queryKey: ['activeTask'] })
+    },
+  })
+
+  const cancel = (taskId: string) => {
+    if (confirm('Are you sure you want to cancel this task?')) {
+      mutation.mutate(taskId)
+    }
+  }
+
+  const isCancelling = (taskId: string) => cancellingTaskIds.includes(taskId)
+
+  return { cancel, isCancelling }
+}
+
+// The task's status from whichever cached query has seen it stop
+function finishedStatus(queryClient: QueryClient, taskId: string): TaskStatusResponse | undefined {
+  const candidates = [
+    queryClient.getQueryData<TaskStatusResponse>(['taskStatus', taskId]),
+    queryClient.getQueryData<TaskStatusResponse | null>(['activeTask']),
+    ...queryClient.getQueriesData<TaskStatusResponse[]>({ queryKey: ['tasks'] })
+      .flatMap(([, tasks]) => tasks ?? []),
+  ]
+  return candidates.find((task): task is TaskStatusResponse =>
+    !!task && task.task_id === taskId && isFinished(task.status)
+  )
+}
+
+// Clears the cancelling flag once the server reports the task stopped, from whichever
+// page fetched that status. Mounted once in the layout.
+export function useCancellationWatcher() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const check = () => {
+      const { cancellingTaskIds, setCancelling } = useTaskStore.getState()
+      for (const taskId of cancellingTaskIds) {
+        const status = finishedStatus(queryClient, taskId)
+        if (!status) continue
+        setCancelling(taskId, false)
+        if (status.status === 'cancelled') {
+          toast({
+            title: 'Task Cancelled',
+            description: `Stopped after ${status.processed_papers} papers`,
+          })
+        }
+      }
+    }
+    check()
+    return queryClient.getQueryCache().subscribe(check)
+  }, [queryClient, toast])
+}
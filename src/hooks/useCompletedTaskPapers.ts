@@ -0,0 +1,45 @@
+import { useCallback } from 'react'
+import { useQuery, useQueries, type UseQueryResult } from '@tanstack/react-query'
+import { getTasks, getTaskResults } from '@/lib/api'
+import type { TaskPapers } from '@/lib/papers'
+import type { TaskResult } from '@/types/api'
+
+// The task list has no paging, and every task's results are fetched, so only the latest are covered
+export const COMPLETED_TASKS_LIMIT = 50
+
+// Papers of the latest completed tasks, for views that aggregate across runs.
+// Results are cached per task, so revisiting is cheap after the first load.
+export function useCompletedTaskPapers() {
+  const { data: completedTasks = [], isLoading: tasksLoading } = useQuery({
+    queryKey: ['tasks', 'completed'],
+    queryFn: () => getTasks('completed', COMPLETED_TASKS_LIMIT),
+  })
+
+  // Stable so the combined list keeps its identity until a result changes
+  const combine = useCallback((queries: UseQueryResult<TaskResult>[]) => ({
+    tasks: completedTasks.flatMap((task, i): TaskPapers[] => {
+      const results = queries[i]?.data
+      return results ? [{ task, papers: results.papers }] : []
+    }),
+    loaded: queries.filter(q => !q.isLoading).length,
+    resultsLoading: queries.some(q => q.isLoading),
+  }), [completedTasks])
+
+  const { tasks, loaded, resultsLoading } = useQueries({
+    queries: completedTasks.map(task => ({
+      queryKey: ['taskResults', task.task_id],
+      queryFn: () => getTaskResults(task.task_id),
+      staleTime: Infinity,
+    })),
+    combine,
+  })
+
+  return {
+    tasks,
+    loaded,
+    total: completedTasks.length,
+    // Older completed tasks may exist beyond the limit
+    limited: completedTasks.length >= COMPLETED_TASKS_LIMIT,
+    isLoading: tasksLoading || resultsLoading,
+  }
+}
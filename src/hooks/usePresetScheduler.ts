@@ -0,0 +1,38 @@
+import { useEffect } from 'react'
+import { useToast } from '@/components/ui/use-toast'
+import { nextRunAt, resolvePresetRequest } from '@/lib/presets'
+import { usePresetStore, useQueueStore } from '@/store'
+
+const CHECK_INTERVAL = 60_000
+
+// Queues scheduled presets when they fall due. Runs only while the app is open;
+// a run missed while it was closed happens once on the next check.
+export function usePresetScheduler() {
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const check = () => {
+      const now = new Date()
+      const { presets, claimScheduledRun } = usePresetStore.getState()
+      const { items, enqueue } = useQueueStore.getState()
+
+      presets.forEach(preset => {
+        const schedule = preset.schedule
+        if (!schedule?.enabled || new Date(schedule.next_run_at) > now) return
+        if (!claimScheduledRun(preset.id, now, nextRunAt(schedule.cadence, now))) return
+        // Don't pile up runs of a preset whose previous run is still waiting
+        if (items.some(item => item.preset_id === preset.id)) return
+
+        enqueue(resolvePresetRequest(preset, now), preset.id)
+        toast({
+          title: 'Scheduled Analysis Queued',
+          description: preset.name,
+        })
+      })
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [toast])
+}
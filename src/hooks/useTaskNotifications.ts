@@ -0,0 +1,44 @@
+import { useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { getTasks } from '@/lib/api'
+import { isFinished, notifyTaskFinished, setNotificationNavigator } from '@/lib/notifications'
+import { useNotificationStore } from '@/store'
+
+const POLL_INTERVAL_MS = 30000
+
+// Records tasks that finished since the last check, including while no task page was open.
+// Mounted once in the layout; live sockets notify sooner through the task subscription.
+export function useTaskNotifications() {
+  const navigate = useNavigate()
+
+  useEffect(() => {
+    setNotificationNavigator(taskId => navigate(`/task/${taskId}`))
+  }, [navigate])
+
+  const { data: tasks } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: () => getTasks(),
+    refetchInterval: POLL_INTERVAL_MS,
+  })
+
+  useEffect(() => {
+    if (!tasks) return
+    const { checked_until, setCheckedUntil } = useNotificationStore.getState()
+    const finished = tasks
+      .filter(task => isFinished(task.status))
+      .map(task => ({ task, at: task.completed_at || task.updated_at || '' }))
+      .filter(({ at }) => at)
+
+    const latest = finished.reduce((max, { at }) => at > max ? at : max, checked_until || '')
+    // First run only sets the baseline, so existing history doesn't flood the list
+    if (checked_until) {
+      finished
+        .filter(({ at }) => at > checked_until)
+        .sort((a, b) => a.at.localeCompare(b.at))
+        .forEach(({ task }) => notifyTaskFinished(task))
+    }
+    if (!checked_until) setCheckedUntil(latest || new Date(0).toISOString())
+    else if (latest !== checked_until) setCheckedUntil(latest)
+  }, [tasks])
+}
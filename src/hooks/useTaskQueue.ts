@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { useToast } from '@/components/ui/use-toast'
+import { getActiveTask, isConflict, startAnalysis } from '@/lib/api'
+import { useLineageStore, usePresetStore, useQueueStore } from '@/store'
+
+// Submits the head of the local queue whenever the server reports no active task.
+// Mounted once in the layout so the queue drains regardless of the current page.
+export function useTaskQueueRunner() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const { items, remove, claim, release } = useQueueStore()
+  const submittingRef = useRef(false)
+
+  const { data: activeTask, isFetching } = useQuery({
+    queryKey: ['activeTask'],
+    queryFn: getActiveTask,
+    refetchInterval: items.length > 0 ? 5000 : false,
+  })
+
+  const next = items[0]
+
+  useEffect(() => {
+    if (!next || activeTask || isFetching || submittingRef.current) return
+    // Another open tab is submitting this item
+    if (!claim(next.id, new Date())) return
+
+    submittingRef.current = true
+    startAnalysis(next.request)
+      .then((data) => {
+        remove(next.id)
+        if (next.preset_id) {
+          usePresetStore.getState().recordRun(next.preset_id, {
+            task_id: data.task_id,
+            started_at: data.created_at,
+            date_from: next.request.date_from,
+            date_to: next.request.date_to,
+          })
+        }
+        if (next.parent) useLineageStore.getState().link(data.task_id, next.parent)
+        toast({
+          title: 'Queued Analysis Started',
+          description: `Task ${data.task_id} started for ${next.request.query}`,
+        })
+        queryClient.invalidateQueries({ queryKey: ['tasks'] })
+      })
+      .catch((error: Error) => {
+        // Someone else took the slot first or the backend is unreachable;
+        // keep the item and retry on the next poll
+        if (error instanceof TypeError || isConflict(error)) {
+          release(next.id)
+          return
+        }
+        remove(next.id)
+        toast({
+          variant: 'destructive',
+          title: 'Queued Analysis Failed',
+          description: `${next.request.query}: ${error.message}`,
+        })
+      })
+      .finally(async () => {
+        // Hold the lock until the new active task is known, so the next item waits
+        await queryClient.refetchQueries({ queryKey: ['activeTask'] })
+        submittingRef.current = false
+      })
+  }, [next, activeTask, isFetching, remove, claim, release, toast, queryClient])
+}
@@ -0,0 +1,26 @@
+import { useEffect } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { subscribeToTask, taskProgressKey } from '@/lib/taskSubscriptions'
+import { useTaskStore } from '@/store'
+import type { TaskProgress } from '@/types/api'
+
+// Subscribes to live updates while the task runs. Status updates land in the
+// ['taskStatus', id] query; the latest progress message is returned here.
+export function useTaskSubscription(taskId: string | undefined, enabled: boolean) {
+  const queryClient = useQueryClient()
+  const connection = useTaskStore(state => taskId ? state.connections[taskId] : undefined)
+
+  useEffect(() => {
+    if (!taskId || !enabled) return
+    return subscribeToTask(queryClient, taskId)
+  }, [taskId, enabled, queryClient])
+
+  // Filled by the subscription only, never fetched
+  const { data: progress } = useQuery<TaskProgress | null>({
+    queryKey: taskProgressKey(taskId ?? ''),
+    queryFn: () => null,
+    enabled: false,
+  })
+
+  return { progress: enabled ? progress ?? null : null, connection }
+}
@@ -9,26 +9,30 @@ import type {
   HealthResponse,
   EvaluationResponse,
 } from '@/types/api'
+import { resolveEndpoints } from '@/lib/config'
 
-// Declare global ENV type for runtime configuration
-declare global {
-  interface Window {
-    ENV?: {
-      VITE_API_URL?: string
-      VITE_WS_URL?: string
-    }
+// Error response from the backend, with its HTTP status for callers that branch on it
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
   }
 }
 
-// Use hardcoded production API URL
-const API_BASE = 'https://paper-agent-production.up.railway.app'
+// The server runs one analysis at a time and answers 409 while its slot is taken
+export function isConflict(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 409
+}
 
 async function fetchApi<T>(
   endpoint: string,
   options?: RequestInit,
   retries = 2
 ): Promise<T> {
-  const url = `${API_BASE}${endpoint}`
+  const url = `${resolveEndpoints().apiUrl}${endpoint}`
   
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
@@ -42,7 +46,7 @@ async function fetchApi<T>(
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({ detail: 'Unknown error' }))
-        throw new Error(error.detail || `HTTP error ${response.status}`)
+        throw new ApiError(error.detail || `HTTP error ${response.status}`, response.status)
       }
 
       return response.json()
@@ -59,9 +63,10 @@ async function fetchApi<T>(
   throw new Error('Failed after retries')
 }
 
-// Health check
+// Health check. On the same origin /health is answered by nginx itself, so the
+// backend's is reached through the /api/health proxy route instead
 export async function checkHealth(): Promise<HealthResponse> {
-  return fetchApi<HealthResponse>('/health')
+  return fetchApi<HealthResponse>(resolveEndpoints().apiUrl ? '/health' : '/api/health')
 }
 
 // Analysis
@@ -135,11 +140,17 @@ export async function getActiveTask(): Promise<TaskStatusResponse | null> {
 
 // File download
 export function getDownloadUrl(taskId: string, filename: string): string {
-  return `${API_BASE}/api/tasks/${taskId}/download/${filename}`
+  return `${resolveEndpoints().apiUrl}/api/tasks/${taskId}/download/${filename}`
+}
+
+// Size in bytes from a HEAD request; undefined if the server doesn't report it
+export async function getDownloadSize(taskId: string, filename: string): Promise<number | undefined> {
+  const response = await fetch(getDownloadUrl(taskId, filename), { method: 'HEAD' })
+  const length = response.headers.get('Content-Length')
+  return response.ok && length ? Number(length) : undefined
 }
 
 // WebSocket connection
 export function createWebSocket(taskId: string): WebSocket {
-  const wsUrl = 'wss://paper-agent-production.up.railway.app'
-  return new WebSocket(`${wsUrl}/ws/${taskId}`)
+  return new WebSocket(`${resolveEndpoints().wsUrl}/ws/${taskId}`)
 }
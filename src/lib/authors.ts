@@ -0,0 +1,218 @@
+import type { AuthorData, PaperData, TaskStatusResponse } from '@/types/api'
+import { authorCountry, type TaskPapers } from '@/lib/papers'
+import type { NameDecision } from '@/store'
+
+interface ParsedName {
+  // Lowercased, without diacritics or punctuation
+  first: string[]
+  last: string
+}
+
+export interface NameVariant {
+  name: string
+  // Merged by the heuristic before any override
+  suggested: boolean
+  reason: string
+  merged: boolean
+  overridden: boolean
+}
+
+export interface AuthorPaper {
+  paper: PaperData
+  task_ids: string[]
+  // The matching author entry in the first task the paper appeared in
+  author: AuthorData
+}
+
+export interface AuthorAffiliation {
+  raw: string
+  normalized?: string
+  name: string
+  count: number
+  first_seen?: string
+  last_seen?: string
+}
+
+export interface ConfidencePoint {
+  task_id: string
+  query: string
+  date: string
+  confidence: number
+  authors: number
+}
+
+export interface CoAuthor {
+  name: string
+  papers: number
+}
+
+export interface AuthorProfile {
+  names: string[]
+  papers: AuthorPaper[]
+  affiliations: AuthorAffiliation[]
+  countries: { value: string; count: number }[]
+  confidence: ConfidencePoint[]
+  coauthors: CoAuthor[]
+}
+
+const stripDiacritics = (s: string) => s.normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+
+function parseName(name: string): ParsedName {
+  let cleaned = stripDiacritics(name).toLowerCase().trim()
+  // "Smith, John" -> "John Smith"
+  if (cleaned.includes(',')) {
+    const [last, rest] = cleaned.split(',', 2)
+    cleaned = `${rest} ${last}`
+  }
+  // Split "J.R." into separate initials before dropping punctuation
+  const parts = cleaned.replace(/\./g, '. ').replace(/[^a-z\s-]/g, ' ').split(/\s+/).filter(Boolean)
+  return { first: parts.slice(0, -1), last: parts[parts.length - 1] || '' }
+}
+
+// Same person spelled the same way, ignoring case, accents and punctuation
+export function nameKey(name: string): string {
+  const { first, last } = parseName(name)
+  return [...first, last].join(' ')
+}
+
+const isInitial = (part: string) => part.length === 1
+
+// First names agree when every given name matches either in full or as an initial
+function firstNamesCompatible(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return true
+  const shorter = a.length <= b.length ? a : b
+  const longer = a.length <= b.length ? b : a
+  return shorter.every((part, i) => {
+    const other = longer[i]
+    if (isInitial(part) || isInitial(other)) return part[0] === other[0]
+    return part === other
+  })
+}
+
+const hasFullFirstName = (parsed: ParsedName) => parsed.first.some(part => !isInitial(part))
+
+// Other spellings in the data that may be the same person, with the heuristic's call on each
+export function findNameVariants(
+  name: string,
+  allNames: string[],
+  decisions: Record<string, NameDecision>
+): NameVariant[] {
+  const target = parseName(name)
+  const targetKey = nameKey(name)
+  const distinct = Array.from(new Map(allNames.map(n => [nameKey(n), n])).values())
+  const sameLast = distinct.filter(n => nameKey(n) !== targetKey && parseName(n).last === target.last)
+
+  return sameLast
+    .filter(n => firstNamesCompatible(parseName(n).first, target.first))
+    .map(variant => {
+      const parsed = parseName(variant)
+      // An initial that also fits a different full first name can't be merged safely
+      const initialsSide = hasFullFirstName(parsed) ? target : parsed
+      const fullSide = initialsSide === target ? parsed : target
+      const clashes = hasFullFirstName(initialsSide) ? [] : distinct.filter(other => {
+        const o = parseName(other)
+        return o.last === target.last &&
+          hasFullFirstName(o) &&
+          firstNamesCompatible(o.first, initialsSide.first) &&
+          !firstNamesCompatible(o.first, fullSide.first)
+      })
+
+      const suggested = clashes.length === 0
+      const reason = !hasFullFirstName(parsed) || !hasFullFirstName(target)
+        ? suggested
+          ? 'Initials match the full name'
+          : `Initials also match ${clashes.slice(0, 2).join(', ')}`
+        : 'Same name with different spelling'
+      const decision = decisions[pairKey(name, variant)]
+      const merged = decision ? decision === 'merge' : suggested
+      return { name: variant, suggested, reason, merged, overridden: !!decision && merged !== suggested }
+    })
+    .sort((a, b) => Number(b.merged) - Number(a.merged) || a.name.localeCompare(b.name))
+}
+
+// Order-independent key for a merge/split decision between two spellings
+export function pairKey(a: string, b: string): string {
+  return [nameKey(a), nameKey(b)].sort().join('|')
+}
+
+export function allAuthorNames(tasks: TaskPapers[]): string[] {
+  const names = new Set<string>()
+  tasks.forEach(({ papers }) => papers.forEach(paper => paper.authors.forEach(a => names.add(a.name))))
+  return Array.from(names)
+}
+
+const taskDate = (task: TaskStatusResponse) => task.started_at || task.completed_at || ''
+
+export function buildAuthorProfile(names: string[], tasks: TaskPapers[]): AuthorProfile {
+  const keys = new Set(names.map(nameKey))
+  const isAuthor = (author: AuthorData) => keys.has(nameKey(author.name))
+
+  const papers = new Map<string, AuthorPaper>()
+  const affiliations = new Map<string, AuthorAffiliation>()
+  const countries = new Map<string, number>()
+  const coauthors = new Map<string, CoAuthor>()
+  const confidence: ConfidencePoint[] = []
+
+  const ordered = [...tasks].sort((a, b) => taskDate(a.task).localeCompare(taskDate(b.task)))
+  for (const { task, papers: taskPapers } of ordered) {
+    const scores: number[] = []
+    for (const paper of taskPapers) {
+      const author = paper.authors.find(isAuthor)
+      if (!author) continue
+      scores.push(author.confidence)
+
+      const existing = papers.get(paper.paper_id)
+      if (existing) {
+        if (!existing.task_ids.includes(task.task_id)) existing.task_ids.push(task.task_id)
+        continue
+      }
+      papers.set(paper.paper_id, { paper, task_ids: [task.task_id], author })
+
+      // Affiliations are dated by the paper, falling back to when the task ran
+      const seen = paper.published_date?.slice(0, 10) || taskDate(task).slice(0, 10) || undefined
+      const affiliationKey = `${author.raw_affiliation}|${author.normalized_affiliation || ''}`
+      const affiliation = affiliations.get(affiliationKey) || {
+        raw: author.raw_affiliation,
+        normalized: author.normalized_affiliation,
+        name: author.name,
+        count: 0,
+      }
+      affiliation.count++
+      if (seen) {
+        if (!affiliation.first_seen || seen < affiliation.first_seen) affiliation.first_seen = seen
+        if (!affiliation.last_seen || seen > affiliation.last_seen) affiliation.last_seen = seen
+      }
+      affiliations.set(affiliationKey, affiliation)
+
+      const country = author.country || authorCountry(author)
+      if (country) countries.set(country, (countries.get(country) || 0) + 1)
+
+      paper.authors.filter(a => !isAuthor(a)).forEach(coauthor => {
+        const key = nameKey(coauthor.name)
+        const entry = coauthors.get(key) || { name: coauthor.name, papers: 0 }
+        entry.papers++
+        coauthors.set(key, entry)
+      })
+    }
+    if (scores.length > 0) {
+      confidence.push({
+        task_id: task.task_id,
+        query: task.query,
+        date: taskDate(task),
+        confidence: scores.reduce((sum, s) => sum + s, 0) / scores.length * 100,
+        authors: scores.length,
+      })
+    }
+  }
+
+  return {
+    names,
+    papers: Array.from(papers.values())
+      .sort((a, b) => (b.paper.published_date || '').localeCompare(a.paper.published_date || '')),
+    affiliations: Array.from(affiliations.values())
+      .sort((a, b) => (b.last_seen || '').localeCompare(a.last_seen || '') || b.count - a.count),
+    countries: Array.from(countries, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count),
+    confidence,
+    coauthors: Array.from(coauthors.values()).sort((a, b) => b.papers - a.papers || a.name.localeCompare(b.name)),
+  }
+}
@@ -0,0 +1,64 @@
+import type { PaperData } from '@/types/api'
+
+export interface OrgTypeMatrix {
+  // Every org type present, most papers first
+  types: string[]
+  // Papers behind each cell, keyed by cellKey. The diagonal holds papers whose
+  // authors all share that one type; other cells hold papers with both types.
+  cells: Record<string, PaperData[]>
+  single: number
+  mixed: number
+  // Papers with at least one typed author; the rest can't be placed
+  typed: number
+  untyped: number
+}
+
+// Order-independent key, so (a, b) and (b, a) share a cell
+export function cellKey(a: string, b: string): string {
+  return [a, b].sort().join('\u0000')
+}
+
+export function paperOrgTypes(paper: PaperData): string[] {
+  return Array.from(new Set(paper.authors.map(a => a.org_type).filter((t): t is string => !!t))).sort()
+}
+
+export function buildOrgTypeMatrix(papers: PaperData[]): OrgTypeMatrix {
+  const cells: Record<string, PaperData[]> = {}
+  const typeCounts = new Map<string, number>()
+  let single = 0
+  let mixed = 0
+  let untyped = 0
+
+  const addTo = (key: string, paper: PaperData) => {
+    (cells[key] ||= []).push(paper)
+  }
+
+  for (const paper of papers) {
+    const types = paperOrgTypes(paper)
+    if (types.length === 0) {
+      untyped++
+      continue
+    }
+    types.forEach(type => typeCounts.set(type, (typeCounts.get(type) || 0) + 1))
+
+    if (types.length === 1) {
+      single++
+      addTo(cellKey(types[0], types[0]), paper)
+      continue
+    }
+    // A paper mixing three types counts toward each of its pairs
+    mixed++
+    for (let i = 0; i < types.length; i++) {
+      for (let j = i + 1; j < types.length; j++) addTo(cellKey(types[i], types[j]), paper)
+    }
+  }
+
+  return {
+    types: Array.from(typeCounts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([type]) => type),
+    cells,
+    single,
+    mixed,
+    typed: single + mixed,
+    untyped,
+  }
+}
@@ -0,0 +1,62 @@
+import type { AnalyticsData } from '@/types/api'
+
+export interface RankedEntry {
+  name: string
+  // One entry per compared task, in the same order as the input
+  values: { count: number; percentage: number; rank?: number }[]
+}
+
+// Union of the top `limit` entries of every task, with each task's rank and share
+function compareRanked<T>(
+  lists: T[][],
+  key: (item: T) => string,
+  count: (item: T) => number,
+  percentage: (item: T) => number,
+  limit: number
+): RankedEntry[] {
+  const names = new Set<string>()
+  lists.forEach(list => list.slice(0, limit).forEach(item => names.add(key(item))))
+
+  const lookups = lists.map(list => new Map(list.map((item, i) => [key(item), { item, rank: i + 1 }])))
+
+  return Array.from(names).map(name => ({
+    name,
+    values: lookups.map(lookup => {
+      const found = lookup.get(name)
+      return found
+        ? { count: count(found.item), percentage: percentage(found.item), rank: found.rank }
+        : { count: 0, percentage: 0 }
+    }),
+  })).sort((a, b) => (a.values[0].rank ?? Infinity) - (b.values[0].rank ?? Infinity)
+    || b.values[0].count - a.values[0].count)
+}
+
+export function compareOrganizations(analytics: AnalyticsData[], limit = 15): RankedEntry[] {
+  return compareRanked(
+    analytics.map(a => a.top_organizations),
+    o => o.name,
+    o => o.author_count,
+    o => o.percentage,
+    limit
+  )
+}
+
+export function compareCountries(analytics: AnalyticsData[], limit = 10): RankedEntry[] {
+  return compareRanked(
+    analytics.map(a => a.country_distribution),
+    c => c.country,
+    c => c.author_count,
+    c => c.percentage,
+    limit
+  )
+}
+
+export function compareOrgTypes(analytics: AnalyticsData[]): RankedEntry[] {
+  return compareRanked(
+    analytics.map(a => [...a.org_type_distribution].sort((x, y) => y.count - x.count)),
+    t => t.org_type,
+    t => t.count,
+    t => t.percentage,
+    Infinity
+  )
+}
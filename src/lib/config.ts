@@ -0,0 +1,84 @@
+// Endpoint resolution: browser override -> runtime window.ENV -> build-time
+// import.meta.env -> same origin (served through the nginx / Vite proxies)
+
+// Declare global ENV type for runtime configuration
+declare global {
+  interface Window {
+    ENV?: {
+      VITE_API_URL?: string
+      VITE_WS_URL?: string
+    }
+  }
+}
+
+export type EndpointSource = 'override' | 'runtime' | 'build' | 'derived' | 'same-origin'
+
+export interface EndpointOverrides {
+  apiUrl?: string
+  wsUrl?: string
+}
+
+export interface ResolvedEndpoints {
+  apiUrl: string
+  wsUrl: string
+  apiSource: EndpointSource
+  wsSource: EndpointSource
+}
+
+const OVERRIDES_KEY = 'endpointOverrides'
+
+function clean(url?: string): string | undefined {
+  const trimmed = url?.trim().replace(/\/+$/, '')
+  return trimmed || undefined
+}
+
+export function getEndpointOverrides(): EndpointOverrides {
+  try {
+    return JSON.parse(localStorage.getItem(OVERRIDES_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+export function setEndpointOverrides(overrides: EndpointOverrides) {
+  const apiUrl = clean(overrides.apiUrl)
+  const wsUrl = clean(overrides.wsUrl)
+  if (!apiUrl && !wsUrl) {
+    localStorage.removeItem(OVERRIDES_KEY)
+    return
+  }
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify({ apiUrl, wsUrl }))
+}
+
+export function getConfiguredEndpoints(): Record<'override' | 'runtime' | 'build', EndpointOverrides> {
+  const overrides = getEndpointOverrides()
+  return {
+    override: { apiUrl: clean(overrides.apiUrl), wsUrl: clean(overrides.wsUrl) },
+    runtime: { apiUrl: clean(window.ENV?.VITE_API_URL), wsUrl: clean(window.ENV?.VITE_WS_URL) },
+    build: { apiUrl: clean(import.meta.env.VITE_API_URL), wsUrl: clean(import.meta.env.VITE_WS_URL) },
+  }
+}
+
+export function resolveEndpoints(): ResolvedEndpoints {
+  const configured = getConfiguredEndpoints()
+  const layers = ['override', 'runtime', 'build'] as const
+
+  const apiLayer = layers.find(layer => configured[layer].apiUrl)
+  const wsLayer = layers.find(layer => configured[layer].wsUrl)
+
+  const apiUrl = apiLayer ? configured[apiLayer].apiUrl! : ''
+  const apiSource: EndpointSource = apiLayer || 'same-origin'
+
+  // Keep the socket on the same backend as the API: a WebSocket URL only wins
+  // if it comes from the same or a higher-priority layer than the API URL
+  if (wsLayer && (!apiLayer || layers.indexOf(wsLayer) <= layers.indexOf(apiLayer))) {
+    return { apiUrl, apiSource, wsUrl: configured[wsLayer].wsUrl!, wsSource: wsLayer }
+  }
+
+  if (apiUrl) {
+    return { apiUrl, apiSource, wsUrl: apiUrl.replace(/^http/, 'ws'), wsSource: 'derived' }
+  }
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return { apiUrl, apiSource, wsUrl: `${protocol}//${window.location.host}`, wsSource: 'same-origin' }
+}
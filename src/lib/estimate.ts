@@ -0,0 +1,127 @@
+import type { AnalysisRequest, ProcessingStage, TaskStatusResponse } from '@/types/api'
+import type { PricingSettings, StageTimeline } from '@/store'
+import { SECONDS_PER_PAPER } from '@/lib/queue'
+import { PIPELINE_STAGES } from '@/lib/stages'
+
+export interface Range {
+  low: number
+  expected: number
+  high: number
+}
+
+export interface StageEstimate {
+  stage: ProcessingStage
+  seconds: number
+  share: number
+}
+
+export interface RunEstimate {
+  // Past runs the estimate is based on; 0 means defaults were used
+  samples: number
+  papers: Range
+  seconds: Range
+  cost: Range
+  stages: StageEstimate[]
+}
+
+// Below this many past runs the range is widened around the median instead of using percentiles
+const MIN_SAMPLES_FOR_PERCENTILES = 5
+const FALLBACK_SPREAD = 0.5
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0
+  const pos = (sorted.length - 1) * q
+  const base = Math.floor(pos)
+  const next = sorted[base + 1] ?? sorted[base]
+  return sorted[base] + (next - sorted[base]) * (pos - base)
+}
+
+function spread(values: number[], fallback: number): Range {
+  if (values.length === 0) {
+    return { low: fallback * (1 - FALLBACK_SPREAD), expected: fallback, high: fallback * (1 + FALLBACK_SPREAD) }
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const expected = quantile(sorted, 0.5)
+  if (sorted.length < MIN_SAMPLES_FOR_PERCENTILES) {
+    return {
+      low: Math.min(sorted[0], expected * (1 - FALLBACK_SPREAD)),
+      expected,
+      high: Math.max(sorted[sorted.length - 1], expected * (1 + FALLBACK_SPREAD)),
+    }
+  }
+  return { low: quantile(sorted, 0.1), expected, high: quantile(sorted, 0.9) }
+}
+
+function scale(range: Range, factor: Range): Range {
+  return {
+    low: range.low * factor.low,
+    expected: range.expected * factor.expected,
+    high: range.high * factor.high,
+  }
+}
+
+// Completed runs of the same data source that processed something
+export function historyFor(tasks: TaskStatusResponse[], dataSource: string): TaskStatusResponse[] {
+  return tasks.filter(task =>
+    task.status === 'completed' &&
+    task.data_source === dataSource &&
+    task.processed_papers > 0 &&
+    task.elapsed_seconds > 0
+  )
+}
+
+export function secondsPerPaper(history: TaskStatusResponse[]): Range {
+  return spread(history.map(task => task.elapsed_seconds / task.processed_papers), SECONDS_PER_PAPER)
+}
+
+export function costPerPaper(pricing: PricingSettings): number {
+  const price = pricing.models.find(m => m.model === pricing.selected_model) || pricing.models[0]
+  if (!price) return 0
+  return (pricing.input_tokens_per_paper * price.input + pricing.output_tokens_per_paper * price.output) / 1_000_000
+}
+
+// Average share of run time spent in each stage, from recorded stage timelines
+function stageShares(timelines: StageTimeline[]): Map<ProcessingStage, number> {
+  const totals = new Map<ProcessingStage, number>()
+  let runs = 0
+  timelines.forEach(timeline => {
+    const durations = timeline.stages
+      .filter(span => PIPELINE_STAGES.includes(span.stage))
+      .map(span => [span.stage, new Date(span.ended_at).getTime() - new Date(span.started_at).getTime()] as const)
+    const total = durations.reduce((sum, [, ms]) => sum + ms, 0)
+    if (total <= 0) return
+    runs++
+    durations.forEach(([stage, ms]) => totals.set(stage, (totals.get(stage) || 0) + ms / total))
+  })
+  return new Map(Array.from(totals, ([stage, sum]) => [stage, sum / runs]))
+}
+
+export function estimateRun(
+  request: Pick<AnalysisRequest, 'max_papers' | 'data_source'>,
+  tasks: TaskStatusResponse[],
+  timelines: StageTimeline[],
+  pricing: PricingSettings
+): RunEstimate {
+  const history = historyFor(tasks, request.data_source)
+
+  // Queries often match fewer papers than requested; without history assume the full amount
+  const yieldRatio = history.length
+    ? spread(history.map(task => Math.min(1, (task.total_papers || task.processed_papers) / task.max_papers)), 1)
+    : { low: 1, expected: 1, high: 1 }
+  const papers = scale(
+    { low: request.max_papers, expected: request.max_papers, high: request.max_papers },
+    { ...yieldRatio, high: Math.min(1, yieldRatio.high) }
+  )
+
+  const seconds = scale(papers, secondsPerPaper(history))
+  const perPaperCost = costPerPaper(pricing)
+  const cost = scale(papers, { low: perPaperCost, expected: perPaperCost, high: perPaperCost })
+
+  const historyIds = new Set(history.map(task => task.task_id))
+  const shares = stageShares(timelines.filter(t => historyIds.has(t.task_id)))
+  const stages = PIPELINE_STAGES
+    .filter(stage => shares.has(stage))
+    .map(stage => ({ stage, share: shares.get(stage)!, seconds: seconds.expected * shares.get(stage)! }))
+
+  return { samples: history.length, papers, seconds, cost, stages }
+}
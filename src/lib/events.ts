@@ -0,0 +1,46 @@
+import type { TaskEvent } from '@/store'
+import type { TaskError, TaskProgress, TaskStatusResponse, WSMessage } from '@/types/api'
+
+// Turn a WebSocket message into a console entry
+export function eventFromMessage(message: WSMessage): Omit<TaskEvent, 'id' | 'received_at'> {
+  switch (message.type) {
+    case 'progress': {
+      const progress = message.data as TaskProgress
+      return {
+        type: 'progress',
+        severity: 'info',
+        stage: progress.stage,
+        message: `[${progress.processed}/${progress.total}] ${progress.message}`,
+        data: progress,
+      }
+    }
+    case 'status': {
+      const status = message.data as TaskStatusResponse
+      return {
+        type: 'status',
+        severity: status.status === 'failed' ? 'error' : status.status === 'cancelled' || status.failed_papers > 0 ? 'warning' : 'info',
+        stage: status.stage,
+        message: `Status ${status.status}, ${status.processed_papers}/${status.total_papers} papers` +
+          (status.failed_papers > 0 ? `, ${status.failed_papers} failed` : ''),
+        data: status,
+      }
+    }
+    case 'completed':
+      return { type: 'completed', severity: 'info', stage: 'completed', message: 'Task completed', data: message.data }
+    case 'error': {
+      const error = message.data as TaskError | string
+      return typeof error === 'string'
+        ? { type: 'error', severity: 'error', message: error, data: error }
+        : { type: 'error', severity: 'error', stage: error.stage, message: error.error, data: error }
+    }
+  }
+}
+
+export function eventsToLog(events: TaskEvent[]): string {
+  return events.map(event => {
+    const parts = [event.received_at, event.severity.toUpperCase().padEnd(7), event.type.padEnd(10)]
+    if (event.stage) parts.push(`[${event.stage}]`)
+    parts.push(event.message)
+    return parts.join(' ')
+  }).join('\n')
+}
@@ -0,0 +1,96 @@
+import type { AnalyticsData, PaperData } from '@/types/api'
+import { paperConfidence } from '@/lib/papers'
+
+type CsvValue = string | number | undefined | null
+
+function escapeCsv(value: CsvValue): string {
+  const str = value === undefined || value === null ? '' : String(value)
+  return /[",\r\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][], excel = false): string {
+  const lines = [headers, ...rows].map(row => row.map(escapeCsv).join(','))
+  // Excel needs a BOM to detect UTF-8 and prefers CRLF line endings
+  return excel ? '\uFEFF' + lines.join('\r\n') : lines.join('\n')
+}
+
+export function papersToCsv(papers: PaperData[], excel = false): string {
+  return toCsv(
+    ['paper_id', 'title', 'published_date', 'categories', 'author_count', 'authors', 'avg_confidence', 'pdf_url', 'processing_status'],
+    papers.map(p => [
+      p.paper_id,
+      p.title,
+      p.published_date,
+      p.categories.join('; '),
+      p.authors.length,
+      p.authors.map(a => a.name).join('; '),
+      paperConfidence(p).toFixed(3),
+      p.pdf_url,
+      p.processing_status,
+    ]),
+    excel
+  )
+}
+
+// One row per author-paper pair
+export function authorsToCsv(papers: PaperData[], excel = false): string {
+  return toCsv(
+    ['paper_id', 'paper_title', 'author', 'raw_affiliation', 'normalized_affiliation', 'country', 'country_code', 'org_type', 'confidence'],
+    papers.flatMap(p => p.authors.map(a => [
+      p.paper_id,
+      p.title,
+      a.name,
+      a.raw_affiliation,
+      a.normalized_affiliation,
+      a.country,
+      a.country_code,
+      a.org_type,
+      a.confidence.toFixed(3),
+    ])),
+    excel
+  )
+}
+
+export function organizationsToCsv(analytics: AnalyticsData, excel = false): string {
+  return toCsv(
+    ['organization', 'country', 'org_type', 'author_count', 'percentage'],
+    analytics.top_organizations.map(o => [o.name, o.country, o.org_type, o.author_count, o.percentage.toFixed(2)]),
+    excel
+  )
+}
+
+function bibtexKey(paper: PaperData): string {
+  const surname = paper.authors[0]?.name.split(/\s+/).pop()?.replace(/[^A-Za-z]/g, '') || 'anon'
+  const year = paper.published_date?.slice(0, 4) || 'nd'
+  const word = paper.title.split(/\s+/).find(w => w.length > 3)?.replace(/[^A-Za-z]/g, '') || 'paper'
+  return `${surname}${year}${word}`.toLowerCase()
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/([{}&%$#_])/g, '\\$1')
+}
+
+export function papersToBibtex(papers: PaperData[]): string {
+  const usedKeys = new Map<string, number>()
+  return papers.map(paper => {
+    let key = bibtexKey(paper)
+    const seen = usedKeys.get(key) || 0
+    usedKeys.set(key, seen + 1)
+    if (seen > 0) key += String.fromCharCode(97 + ((seen - 1) % 26))
+
+    const fields: [string, string | undefined][] = [
+      ['title', `{${escapeBibtex(paper.title)}}`],
+      ['author', paper.authors.map(a => escapeBibtex(a.name)).join(' and ')],
+      ['year', paper.published_date?.slice(0, 4)],
+      ['eprint', paper.paper_id],
+      ['primaryClass', paper.categories[0]],
+      ['url', paper.pdf_url],
+      ['abstract', paper.abstract && escapeBibtex(paper.abstract)],
+    ]
+    const body = fields
+      .filter(([, value]) => value)
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n')
+    return `@misc{${key},\n${body}\n}`
+  }).join('\n\n')
+}
@@ -0,0 +1,44 @@
+import type { PaperData, GoldStandard } from '@/types/api'
+import type { AnnotatedPaper, AnnotationDraft } from '@/store'
+
+// Seed an annotation from the extracted paper so reviewers only fix mistakes
+export function annotationFromPaper(paper: PaperData): AnnotatedPaper {
+  return {
+    paper_id: paper.paper_id,
+    title: paper.title,
+    authors: paper.authors.map((author, i) => ({
+      source_index: i,
+      name: author.name,
+      normalized_affiliation: author.normalized_affiliation || author.raw_affiliation || '',
+      country_code: author.country_code || '',
+      org_type: author.org_type || 'unknown',
+      hallucinated: false,
+    })),
+    reviewed: false,
+  }
+}
+
+// Only reviewed papers are exported; unreviewed ones would skew recall
+export function toGoldStandard(draft: AnnotationDraft): GoldStandard {
+  return {
+    task_id: draft.task_id,
+    created_at: new Date().toISOString(),
+    papers: Object.values(draft.papers)
+      .filter(paper => paper.reviewed)
+      .map(paper => ({
+        paper_id: paper.paper_id,
+        title: paper.title,
+        authors: paper.authors
+          .filter(author => !author.hallucinated && author.name.trim())
+          .map(author => ({
+            name: author.name.trim(),
+            affiliation: author.normalized_affiliation.trim(),
+            country_code: author.country_code.trim().toUpperCase() || undefined,
+            org_type: author.org_type,
+          })),
+        hallucinated_authors: paper.authors
+          .filter(author => author.hallucinated)
+          .map(author => author.name),
+      })),
+  }
+}
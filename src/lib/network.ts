@@ -0,0 +1,161 @@
+import type { AuthorData, PaperData } from '@/types/api'
+import { organizationOf } from '@/lib/organizations'
+import { authorCountry } from '@/lib/papers'
+
+export type NetworkMode = 'organization' | 'country'
+
+export interface NetworkNode {
+  id: string
+  // Display name; countries are keyed by code but shown by name where one is known
+  label: string
+  authors: number
+  papers: number
+  // Most common org_type among the node's authors, used for coloring
+  org_type: string
+  x: number
+  y: number
+}
+
+export interface NetworkEdge {
+  source: string
+  target: string
+  // Papers with authors on both sides
+  weight: number
+}
+
+export interface Network {
+  nodes: NetworkNode[]
+  edges: NetworkEdge[]
+  // Entities left out to keep the graph readable
+  hidden: number
+}
+
+function entityOf(author: AuthorData, mode: NetworkMode): string | undefined {
+  if (mode === 'organization') return organizationOf(author)
+  return authorCountry(author)
+}
+
+const mostCommon = (counts: Map<string, number>) =>
+  Array.from(counts).sort((a, b) => b[1] - a[1])[0]?.[0] || 'unknown'
+
+export function buildNetwork(papers: PaperData[], mode: NetworkMode, maxNodes = 60): Network {
+  const stats = new Map<string, { authors: number; papers: number; types: Map<string, number>; names: Map<string, number> }>()
+  const edgeWeights = new Map<string, number>()
+
+  for (const paper of papers) {
+    const entities = new Set<string>()
+    for (const author of paper.authors) {
+      const id = entityOf(author, mode)
+      if (!id) continue
+      entities.add(id)
+      const entry = stats.get(id) || { authors: 0, papers: 0, types: new Map(), names: new Map() }
+      entry.authors++
+      if (mode === 'country' && author.country) {
+        entry.names.set(author.country, (entry.names.get(author.country) || 0) + 1)
+      }
+      const type = author.org_type || 'unknown'
+      entry.types.set(type, (entry.types.get(type) || 0) + 1)
+      stats.set(id, entry)
+    }
+    const ids = Array.from(entities).sort()
+    ids.forEach(id => stats.get(id)!.papers++)
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = `${ids[i]}\u0000${ids[j]}`
+        edgeWeights.set(key, (edgeWeights.get(key) || 0) + 1)
+      }
+    }
+  }
+
+  const ranked = Array.from(stats).sort((a, b) => b[1].authors - a[1].authors || a[0].localeCompare(b[0]))
+  const kept = ranked.slice(0, maxNodes)
+  const keptIds = new Set(kept.map(([id]) => id))
+
+  const nodes = kept.map(([id, entry]) => ({
+    id,
+    label: entry.names.size > 0 ? mostCommon(entry.names) : id,
+    authors: entry.authors,
+    papers: entry.papers,
+    org_type: mostCommon(entry.types),
+    x: 0,
+    y: 0,
+  }))
+  const edges = Array.from(edgeWeights)
+    .map(([key, weight]) => {
+      const [source, target] = key.split('\u0000')
+      return { source, target, weight }
+    })
+    .filter(edge => keptIds.has(edge.source) && keptIds.has(edge.target))
+
+  return { nodes: layoutNetwork(nodes, edges), edges, hidden: ranked.length - kept.length }
+}
+
+// Fruchterman-Reingold layout in a unit square centered on 0, with a pull to the
+// center so unconnected nodes stay in view. Deterministic, so the graph doesn't
+// jump around between renders.
+export function layoutNetwork(nodes: NetworkNode[], edges: NetworkEdge[], iterations = 300): NetworkNode[] {
+  const n = nodes.length
+  if (n === 0) return nodes
+  const k = Math.sqrt(1 / n)
+  const index = new Map(nodes.map((node, i) => [node.id, i]))
+  const maxWeight = Math.max(1, ...edges.map(e => e.weight))
+
+  // Start on a circle, largest nodes first
+  const x = nodes.map((_, i) => 0.4 * Math.cos(2 * Math.PI * i / n))
+  const y = nodes.map((_, i) => 0.4 * Math.sin(2 * Math.PI * i / n))
+
+  let temperature = 0.1
+  const cooling = temperature / (iterations + 1)
+  for (let step = 0; step < iterations; step++) {
+    const dx = new Array(n).fill(0)
+    const dy = new Array(n).fill(0)
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const ox = x[i] - x[j]
+        const oy = y[i] - y[j]
+        const dist = Math.max(Math.hypot(ox, oy), 0.001)
+        const force = k * k / dist
+        dx[i] += ox / dist * force
+        dy[i] += oy / dist * force
+        dx[j] -= ox / dist * force
+        dy[j] -= oy / dist * force
+      }
+    }
+
+    for (const edge of edges) {
+      const i = index.get(edge.source)!
+      const j = index.get(edge.target)!
+      const ox = x[i] - x[j]
+      const oy = y[i] - y[j]
+      const dist = Math.max(Math.hypot(ox, oy), 0.001)
+      // Heavier edges pull harder
+      const force = dist * dist / k * (0.5 + edge.weight / maxWeight)
+      dx[i] -= ox / dist * force
+      dy[i] -= oy / dist * force
+      dx[j] += ox / dist * force
+      dy[j] += oy / dist * force
+    }
+
+    for (let i = 0; i < n; i++) {
+      dx[i] -= x[i] * k * 2
+      dy[i] -= y[i] * k * 2
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.001)
+      const move = Math.min(length, temperature)
+      x[i] += dx[i] / length * move
+      y[i] += dy[i] / length * move
+    }
+    temperature -= cooling
+  }
+
+  // Scale into [-0.5, 0.5]
+  const extent = Math.max(0.001, ...x.map(Math.abs), ...y.map(Math.abs))
+  return nodes.map((node, i) => ({ ...node, x: x[i] / extent / 2, y: y[i] / extent / 2 }))
+}
+
+export function neighborsOf(id: string, edges: NetworkEdge[]): { id: string; weight: number }[] {
+  return edges
+    .filter(e => e.source === id || e.target === id)
+    .map(e => ({ id: e.source === id ? e.target : e.source, weight: e.weight }))
+    .sort((a, b) => b.weight - a.weight)
+}
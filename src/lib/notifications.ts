@@ -0,0 +1,64 @@
+import { useNotificationStore } from '@/store'
+import type { TaskStatusResponse } from '@/types/api'
+import { truncate } from '@/lib/utils'
+
+type FinishedTask = Pick<TaskStatusResponse, 'task_id' | 'status' | 'query' | 'processed_papers' | 'failed_papers' | 'errors'>
+
+const TITLES: Partial<Record<TaskStatusResponse['status'], string>> = {
+  completed: 'Analysis completed',
+  failed: 'Analysis failed',
+  cancelled: 'Analysis cancelled',
+}
+
+export function isFinished(status: TaskStatusResponse['status']): boolean {
+  return status in TITLES
+}
+
+function describe(task: FinishedTask): string {
+  const query = truncate(task.query, 60)
+  if (task.status === 'failed') {
+    const error = task.errors[task.errors.length - 1]?.error
+    return `${query}: ${error ? truncate(error, 80) : 'stopped with an error'}`
+  }
+  if (task.status === 'cancelled') return `${query}: stopped after ${task.processed_papers} papers`
+  return `${query}: ${task.processed_papers} papers analyzed` +
+    (task.failed_papers > 0 ? `, ${task.failed_papers} failed` : '')
+}
+
+// Set by the layout so clicking a browser notification navigates inside the app
+let openTask: (taskId: string) => void = (taskId) => window.location.assign(`/task/${taskId}`)
+
+export function setNotificationNavigator(navigate: (taskId: string) => void) {
+  openTask = navigate
+}
+
+// Browser notifications need permission; returns whether they can be shown
+export async function requestDesktopPermission(): Promise<boolean> {
+  if (!('Notification' in window)) return false
+  if (Notification.permission === 'granted') return true
+  if (Notification.permission === 'denied') return false
+  return await Notification.requestPermission() === 'granted'
+}
+
+// Records the task's outcome once, and shows a browser notification if enabled
+export function notifyTaskFinished(task: FinishedTask) {
+  const title = TITLES[task.status]
+  if (!title) return
+
+  const notification = useNotificationStore.getState().add({
+    task_id: task.task_id,
+    status: task.status,
+    title,
+    message: describe(task),
+  })
+  if (!notification || !useNotificationStore.getState().desktop) return
+  if (!('Notification' in window) || Notification.permission !== 'granted') return
+
+  const desktop = new Notification(title, { body: notification.message, tag: task.task_id })
+  desktop.onclick = () => {
+    window.focus()
+    useNotificationStore.getState().markRead(notification.id)
+    openTask(task.task_id)
+    desktop.close()
+  }
+}
@@ -0,0 +1,129 @@
+import type { AuthorData, PaperData, TaskStatusResponse } from '@/types/api'
+import { authorCountry, type TaskPapers } from '@/lib/papers'
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+export interface OrganizationAuthor {
+  name: string
+  papers: number
+  tasks: number
+}
+
+export interface OrganizationPaper {
+  paper: PaperData
+  // Tasks the paper appeared in; links go to the first
+  task_ids: string[]
+  authors: string[]
+}
+
+export interface OrganizationTrendPoint {
+  task_id: string
+  query: string
+  date: string
+  authors: number
+  // Share of all authors in the task
+  share: number
+}
+
+export interface OrganizationProfile {
+  name: string
+  org_types: ValueCount[]
+  countries: ValueCount[]
+  authors: OrganizationAuthor[]
+  papers: OrganizationPaper[]
+  tasks: number
+  first_seen?: string
+  last_seen?: string
+  trend: OrganizationTrendPoint[]
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+// Only normalized affiliations identify an organization; raw strings vary too much
+export function organizationOf(author: AuthorData): string | undefined {
+  return author.normalized_affiliation?.trim() || undefined
+}
+
+function countValues(values: string[]): ValueCount[] {
+  const counts = new Map<string, number>()
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1))
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count)
+}
+
+const taskDate = (task: TaskStatusResponse) => task.started_at || task.completed_at || ''
+
+export function buildOrganizationProfile(name: string, tasks: TaskPapers[]): OrganizationProfile {
+  const key = normalizeName(name)
+  const isOrg = (author: AuthorData) => {
+    const org = organizationOf(author)
+    return !!org && normalizeName(org) === key
+  }
+
+  const orgTypes: string[] = []
+  const countries: string[] = []
+  const authors = new Map<string, { name: string; papers: Set<string>; tasks: Set<string> }>()
+  const papers = new Map<string, OrganizationPaper>()
+  const dates: string[] = []
+  const trend: OrganizationTrendPoint[] = []
+
+  const ordered = [...tasks].sort((a, b) => taskDate(a.task).localeCompare(taskDate(b.task)))
+  for (const { task, papers: taskPapers } of ordered) {
+    let orgAuthors = 0
+    let totalAuthors = 0
+    for (const paper of taskPapers) {
+      totalAuthors += paper.authors.length
+      const matched = paper.authors.filter(isOrg)
+      if (matched.length === 0) continue
+      orgAuthors += matched.length
+
+      const existing = papers.get(paper.paper_id)
+      if (existing) {
+        if (!existing.task_ids.includes(task.task_id)) existing.task_ids.push(task.task_id)
+      } else {
+        papers.set(paper.paper_id, { paper, task_ids: [task.task_id], authors: matched.map(a => a.name) })
+        if (paper.published_date) dates.push(paper.published_date.slice(0, 10))
+        matched.forEach(author => {
+          if (author.org_type) orgTypes.push(author.org_type)
+          const country = author.country || authorCountry(author)
+          if (country) countries.push(country)
+        })
+      }
+
+      matched.forEach(author => {
+        const authorKey = normalizeName(author.name)
+        const entry = authors.get(authorKey) || { name: author.name, papers: new Set(), tasks: new Set() }
+        entry.papers.add(paper.paper_id)
+        entry.tasks.add(task.task_id)
+        authors.set(authorKey, entry)
+      })
+    }
+    trend.push({
+      task_id: task.task_id,
+      query: task.query,
+      date: taskDate(task),
+      authors: orgAuthors,
+      share: totalAuthors ? orgAuthors / totalAuthors * 100 : 0,
+    })
+  }
+
+  dates.sort()
+  return {
+    name: papers.size > 0
+      ? organizationOf(Array.from(papers.values())[0].paper.authors.find(isOrg)!) || name
+      : name,
+    org_types: countValues(orgTypes),
+    countries: countValues(countries),
+    authors: Array.from(authors.values())
+      .map(a => ({ name: a.name, papers: a.papers.size, tasks: a.tasks.size }))
+      .sort((a, b) => b.papers - a.papers || a.name.localeCompare(b.name)),
+    papers: Array.from(papers.values())
+      .sort((a, b) => (b.paper.published_date || '').localeCompare(a.paper.published_date || '')),
+    tasks: trend.filter(point => point.authors > 0).length,
+    first_seen: dates[0],
+    last_seen: dates[dates.length - 1],
+    trend,
+  }
+}
@@ -0,0 +1,93 @@
+import type { PaperData, TaskStatusResponse } from '@/types/api'
+
+// A completed task with its papers, for views that aggregate across tasks
+export interface TaskPapers {
+  task: TaskStatusResponse
+  papers: PaperData[]
+}
+
+export interface PaperFilters {
+  search: string
+  category: string
+  country: string
+  orgType: string
+  status: string
+  minConfidence: number
+}
+
+export const PAPER_SORT_KEYS = ['title', 'authors', 'published', 'confidence'] as const
+
+export type PaperSortKey = typeof PAPER_SORT_KEYS[number]
+
+export function paperConfidence(paper: PaperData): number {
+  if (paper.authors.length === 0) return 0
+  return paper.authors.reduce((sum, a) => sum + a.confidence, 0) / paper.authors.length
+}
+
+export function authorCountry(author: PaperData['authors'][number]): string | undefined {
+  return author.country_code || author.country
+}
+
+// Distinct values present in the loaded papers, for filter dropdowns
+export function paperFacets(papers: PaperData[]) {
+  const categories = new Set<string>()
+  const countries = new Map<string, string>()
+  const orgTypes = new Set<string>()
+  const statuses = new Set<string>()
+
+  for (const paper of papers) {
+    paper.categories.forEach(c => categories.add(c))
+    statuses.add(paper.processing_status)
+    for (const author of paper.authors) {
+      const code = authorCountry(author)
+      if (code) countries.set(code, author.country || code)
+      if (author.org_type) orgTypes.add(author.org_type)
+    }
+  }
+
+  return {
+    categories: Array.from(categories).sort(),
+    countries: Array.from(countries, ([code, name]) => ({ code, name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    orgTypes: Array.from(orgTypes).sort(),
+    statuses: Array.from(statuses).sort(),
+  }
+}
+
+export function filterPapers(papers: PaperData[], filters: PaperFilters): PaperData[] {
+  const search = filters.search.trim().toLowerCase()
+
+  return papers.filter(paper => {
+    if (filters.category && !paper.categories.includes(filters.category)) return false
+    if (filters.status && paper.processing_status !== filters.status) return false
+    if (filters.country && !paper.authors.some(a => authorCountry(a) === filters.country)) return false
+    if (filters.orgType && !paper.authors.some(a => a.org_type === filters.orgType)) return false
+    if (filters.minConfidence > 0 && paperConfidence(paper) < filters.minConfidence) return false
+
+    if (search) {
+      const haystack = [
+        paper.title,
+        ...paper.authors.flatMap(a => [a.name, a.raw_affiliation, a.normalized_affiliation || '']),
+      ].join(' ').toLowerCase()
+      if (!haystack.includes(search)) return false
+    }
+
+    return true
+  })
+}
+
+export function sortPapers(papers: PaperData[], key: PaperSortKey, direction: 'asc' | 'desc'): PaperData[] {
+  const sign = direction === 'asc' ? 1 : -1
+  return [...papers].sort((a, b) => {
+    switch (key) {
+      case 'title':
+        return sign * a.title.localeCompare(b.title)
+      case 'authors':
+        return sign * (a.authors.length - b.authors.length)
+      case 'published':
+        return sign * (a.published_date || '').localeCompare(b.published_date || '')
+      case 'confidence':
+        return sign * (paperConfidence(a) - paperConfidence(b))
+    }
+  })
+}
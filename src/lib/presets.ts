@@ -0,0 +1,41 @@
+import type { AnalysisRequest } from '@/types/api'
+import type { AnalysisPreset, PresetCadence } from '@/store'
+
+export const CADENCE_LABELS: Record<PresetCadence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function nextRunAt(cadence: PresetCadence, from: Date): string {
+  const next = new Date(from)
+  if (cadence === 'daily') next.setDate(next.getDate() + 1)
+  else if (cadence === 'weekly') next.setDate(next.getDate() + 7)
+  else next.setMonth(next.getMonth() + 1)
+  return next.toISOString()
+}
+
+// Inclusive window of the last `days` days ending today
+export function rollingWindow(days: number, now: Date): Pick<AnalysisRequest, 'date_from' | 'date_to'> {
+  const from = new Date(now)
+  from.setDate(from.getDate() - (days - 1))
+  return { date_from: toDateString(from), date_to: toDateString(now) }
+}
+
+// The request a preset runs as at `now`, with any rolling window applied
+export function resolvePresetRequest(preset: AnalysisPreset, now = new Date()): AnalysisRequest {
+  return preset.rolling_days
+    ? { ...preset.request, ...rollingWindow(preset.rolling_days, now) }
+    : preset.request
+}
+
+export function describeWindow(preset: AnalysisPreset): string {
+  if (preset.rolling_days) return `Last ${preset.rolling_days} days`
+  const { date_from, date_to } = preset.request
+  if (!date_from && !date_to) return 'Any date'
+  return `${date_from || '...'} → ${date_to || '...'}`
+}
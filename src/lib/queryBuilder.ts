@@ -0,0 +1,356 @@
+// 'fielded' is arXiv's search_query syntax (cat:, ti:, AND/OR/ANDNOT, parentheses);
+// 'keywords' is plain free text as used by Semantic Scholar and OpenAlex
+export type QuerySyntax = 'fielded' | 'keywords'
+
+export type QueryField = 'cat' | 'ti' | 'au' | 'abs' | 'all' | 'co' | 'jr' | 'rn' | 'id'
+
+// Every prefix the arXiv API accepts
+export const QUERY_FIELDS: { id: QueryField; label: string; placeholder: string }[] = [
+  { id: 'cat', label: 'Category', placeholder: 'cs.AI' },
+  { id: 'ti', label: 'Title', placeholder: 'transformer' },
+  { id: 'au', label: 'Author', placeholder: 'bengio' },
+  { id: 'abs', label: 'Abstract', placeholder: 'reinforcement learning' },
+  { id: 'all', label: 'Any field', placeholder: 'diffusion' },
+  { id: 'co', label: 'Comment', placeholder: 'NeurIPS' },
+  { id: 'jr', label: 'Journal ref', placeholder: 'Nature' },
+  { id: 'rn', label: 'Report number', placeholder: 'CERN-TH' },
+  { id: 'id', label: 'arXiv ID', placeholder: '2401.00001' },
+]
+
+const FIELD_IDS = QUERY_FIELDS.map(f => f.id as string)
+
+export type Combinator = 'AND' | 'OR'
+
+export interface QueryTerm {
+  kind: 'term'
+  field: QueryField
+  value: string
+  // Excluded with ANDNOT; only meaningful inside an AND group
+  negated?: boolean
+}
+
+export interface QueryGroup {
+  kind: 'group'
+  combinator: Combinator
+  children: QueryNode[]
+  negated?: boolean
+}
+
+export type QueryNode = QueryTerm | QueryGroup
+
+export interface QueryIssue {
+  severity: 'error' | 'warning'
+  message: string
+}
+
+// Known fielded sources, for backends that don't declare a syntax
+const FIELDED_SOURCES = ['arxiv']
+
+// Uses the syntax a source declares when it is one of ours; free-text descriptions
+// in query_syntax are for people and are not matched on
+export function querySyntaxFor(dataSource: string, declared?: string): QuerySyntax {
+  if (declared === 'fielded' || declared === 'keywords') return declared
+  return FIELDED_SOURCES.includes(dataSource) ? 'fielded' : 'keywords'
+}
+
+export function emptyGroup(combinator: Combinator = 'AND'): QueryGroup {
+  return { kind: 'group', combinator, children: [] }
+}
+
+export function emptyTerm(field: QueryField = 'all'): QueryTerm {
+  return { kind: 'term', field, value: '' }
+}
+
+// Serialization
+
+function formatValue(value: string): string {
+  const trimmed = value.trim()
+  return /\s/.test(trimmed) && !/^".*"$/.test(trimmed) ? `"${trimmed}"` : trimmed
+}
+
+function serializeNode(node: QueryNode, syntax: QuerySyntax, nested: boolean): string {
+  if (node.kind === 'term') {
+    const value = formatValue(node.value)
+    return syntax === 'fielded' ? `${node.field}:${value}` : value
+  }
+
+  const children = node.children.filter(child => child.kind === 'group' ? child.children.length > 0 : child.value.trim())
+  if (syntax === 'keywords') {
+    return children.map(child => serializeNode(child, syntax, true)).join(' ')
+  }
+
+  // arXiv only has the binary ANDNOT, so in an AND group the excluded children go last.
+  // Negations that can't be written this way are reported by builderIssues.
+  const ordered = node.combinator === 'AND'
+    ? [...children.filter(child => !child.negated), ...children.filter(child => child.negated)]
+    : children
+  const parts = ordered.map((child, i) => {
+    const text = serializeNode(child, syntax, true)
+    if (i === 0) return text
+    const op = child.negated && node.combinator === 'AND' ? 'ANDNOT' : node.combinator
+    return `${op} ${text}`
+  })
+  const joined = parts.join(' ')
+  return nested && parts.length > 1 ? `(${joined})` : joined
+}
+
+export function serializeQuery(root: QueryGroup, syntax: QuerySyntax): string {
+  return serializeNode(root, syntax, false)
+}
+
+const describeNode = (node: QueryNode): string =>
+  node.kind === 'term' ? `${node.field}:${node.value.trim() || '…'}` : 'a group'
+
+// Builder states the fielded syntax can't express. Serializing them would drop the NOT
+// and search for the opposite, so the builder holds back the query until they're fixed.
+export function builderIssues(root: QueryGroup, syntax: QuerySyntax): QueryIssue[] {
+  if (syntax !== 'fielded') return []
+  const issues: QueryIssue[] = []
+
+  const visit = (group: QueryGroup) => {
+    const children = group.children.filter(child => child.kind === 'group' ? child.children.length > 0 : child.value.trim())
+    const negated = children.filter(child => child.negated)
+    if (group.combinator === 'OR') {
+      negated.forEach(child => issues.push({
+        severity: 'error',
+        message: `NOT on ${describeNode(child)} only works in a "Match all" group`,
+      }))
+    } else if (negated.length > 0 && negated.length === children.length) {
+      issues.push({
+        severity: 'error',
+        message: 'A group with NOT needs at least one condition without NOT; arXiv has no standalone NOT',
+      })
+    }
+    group.children.forEach(child => child.kind === 'group' && visit(child))
+  }
+
+  visit(root)
+  return issues
+}
+
+// Tokenizing
+
+type Token =
+  | { type: 'lparen' }
+  | { type: 'rparen' }
+  | { type: 'op'; value: 'AND' | 'OR' | 'ANDNOT'; raw: string }
+  | { type: 'term'; field?: string; value: string; raw: string }
+
+interface TokenizeResult {
+  tokens: Token[]
+  issues: QueryIssue[]
+}
+
+function tokenize(query: string): TokenizeResult {
+  const tokens: Token[] = []
+  const issues: QueryIssue[] = []
+  let i = 0
+
+  while (i < query.length) {
+    const ch = query[i]
+    if (/\s/.test(ch)) {
+      i++
+    } else if (ch === '(' || ch === ')') {
+      tokens.push(ch === '(' ? { type: 'lparen' } : { type: 'rparen' })
+      i++
+    } else {
+      // A word, optionally with a field prefix and a quoted value
+      const start = i
+      let field: string | undefined
+      const prefix = /^([A-Za-z]+):/.exec(query.slice(i))
+      if (prefix) {
+        field = prefix[1]
+        i += prefix[0].length
+      }
+      let value = ''
+      if (query[i] === '"') {
+        const end = query.indexOf('"', i + 1)
+        if (end === -1) {
+          issues.push({ severity: 'error', message: `Unclosed quote in ${query.slice(start)}` })
+          value = query.slice(i)
+          i = query.length
+        } else {
+          value = query.slice(i, end + 1)
+          i = end + 1
+        }
+      } else {
+        const match = /^[^\s()]*/.exec(query.slice(i))
+        value = match ? match[0] : ''
+        i += value.length
+      }
+      const raw = query.slice(start, i)
+      if (!field && /^(AND|OR|ANDNOT)$/.test(value)) {
+        tokens.push({ type: 'op', value: value as 'AND' | 'OR' | 'ANDNOT', raw })
+      } else {
+        tokens.push({ type: 'term', field, value, raw })
+      }
+    }
+  }
+
+  return { tokens, issues }
+}
+
+// Validation
+
+export function validateQuery(query: string, syntax: QuerySyntax): QueryIssue[] {
+  if (!query.trim()) return [{ severity: 'error', message: 'Query is empty' }]
+
+  const { tokens, issues } = tokenize(query)
+
+  if (syntax === 'keywords') {
+    const fielded = tokens.find(t => t.type === 'term' && t.field)
+    if (fielded && fielded.type === 'term') {
+      issues.push({
+        severity: 'warning',
+        message: `Field prefixes are not supported here; "${fielded.raw}" is searched as plain text`,
+      })
+    }
+    if (tokens.some(t => t.type === 'op')) {
+      issues.push({ severity: 'warning', message: 'Boolean operators are not supported here and are searched as words' })
+    }
+    return issues
+  }
+
+  let depth = 0
+  let previous: Token | undefined
+  for (const token of tokens) {
+    if (token.type === 'lparen') {
+      if (previous && (previous.type === 'term' || previous.type === 'rparen')) {
+        issues.push({ severity: 'warning', message: 'Missing operator before "("' })
+      }
+      depth++
+    } else if (token.type === 'rparen') {
+      if (depth === 0) issues.push({ severity: 'error', message: 'Unmatched ")"' })
+      else depth--
+      if (!previous || previous.type === 'lparen') issues.push({ severity: 'error', message: 'Empty parentheses' })
+      else if (previous.type === 'op') issues.push({ severity: 'error', message: `"${previous.raw}" has nothing after it` })
+    } else if (token.type === 'op') {
+      if (!previous || previous.type === 'lparen') {
+        issues.push({ severity: 'error', message: `"${token.raw}" has nothing before it` })
+      } else if (previous.type === 'op') {
+        issues.push({ severity: 'error', message: `"${previous.raw} ${token.raw}" has two operators in a row` })
+      }
+    } else {
+      if (token.field && !FIELD_IDS.includes(token.field)) {
+        issues.push({ severity: 'error', message: `Unknown field "${token.field}:"; use one of ${FIELD_IDS.join(', ')}` })
+      }
+      if (token.field && !token.value) {
+        issues.push({ severity: 'error', message: `"${token.raw}" has no value` })
+      }
+      if (!token.field && /^(and|or|andnot)$/i.test(token.value)) {
+        issues.push({ severity: 'warning', message: `Operators must be uppercase; "${token.value}" is searched as a word` })
+      }
+      if (previous && (previous.type === 'term' || previous.type === 'rparen')) {
+        issues.push({ severity: 'warning', message: `Missing operator before "${token.raw}"` })
+      }
+    }
+    previous = token
+  }
+
+  if (previous?.type === 'op') issues.push({ severity: 'error', message: `"${previous.raw}" has nothing after it` })
+  if (depth > 0) issues.push({ severity: 'error', message: 'Unclosed "("' })
+
+  return issues
+}
+
+// Parsing back into the builder. Best effort: invalid input still yields a tree,
+// so validate separately to find out what was dropped.
+
+function makeGroup(combinator: Combinator, nodes: QueryNode[]): QueryNode {
+  if (nodes.length === 1) return nodes[0]
+  // Merge nested groups with the same combinator, e.g. a AND (b AND c). A negated
+  // group keeps its parentheses: a ANDNOT (b AND c) is not a ANDNOT b AND c.
+  const children = nodes.flatMap(node =>
+    node.kind === 'group' && node.combinator === combinator && !node.negated ? node.children : [node]
+  )
+  return { kind: 'group', combinator, children }
+}
+
+function toTerm(token: Extract<Token, { type: 'term' }>): QueryTerm {
+  if (token.field && !FIELD_IDS.includes(token.field)) {
+    // Unknown prefixes are kept in the value so nothing is silently lost
+    return { kind: 'term', field: 'all', value: token.raw }
+  }
+  return {
+    kind: 'term',
+    field: (token.field || 'all') as QueryField,
+    value: token.value.replace(/^"(.*)"$/, '$1'),
+  }
+}
+
+export function parseQuery(query: string, syntax: QuerySyntax): QueryGroup {
+  const { tokens } = tokenize(query)
+
+  if (syntax === 'keywords') {
+    return {
+      kind: 'group',
+      combinator: 'AND',
+      children: tokens.flatMap(t => t.type === 'term' ? [{ kind: 'term', field: 'all', value: t.raw } as QueryTerm] : []),
+    }
+  }
+
+  let pos = 0
+  const peek = () => tokens[pos]
+
+  // or := and (OR and)* ; and := unary ((AND | ANDNOT | adjacency) unary)*
+  const parseOr = (): QueryNode | null => {
+    const nodes: QueryNode[] = []
+    const first = parseAnd()
+    if (first) nodes.push(first)
+    while (peek()?.type === 'op' && (peek() as { value: string }).value === 'OR') {
+      pos++
+      const next = parseAnd()
+      if (next) nodes.push(next)
+    }
+    return nodes.length ? makeGroup('OR', nodes) : null
+  }
+
+  const parseAnd = (): QueryNode | null => {
+    const nodes: QueryNode[] = []
+    const first = parseUnary()
+    if (first) nodes.push(first)
+    for (;;) {
+      const token = peek()
+      if (!token || token.type === 'rparen') break
+      if (token.type === 'op' && token.value === 'OR') break
+      let negated = false
+      if (token.type === 'op') {
+        negated = token.value === 'ANDNOT'
+        pos++
+      }
+      const next = parseUnary()
+      if (!next) continue
+      if (negated) next.negated = true
+      nodes.push(next)
+    }
+    return nodes.length ? makeGroup('AND', nodes) : null
+  }
+
+  const parseUnary = (): QueryNode | null => {
+    const token = peek()
+    if (!token) return null
+    if (token.type === 'lparen') {
+      pos++
+      const inner = parseOr()
+      if (peek()?.type === 'rparen') pos++
+      return inner
+    }
+    if (token.type === 'term') {
+      pos++
+      return toTerm(token)
+    }
+    // Stray operator or ")"; skip it
+    pos++
+    return null
+  }
+
+  const nodes: QueryNode[] = []
+  while (pos < tokens.length) {
+    const node = parseOr()
+    if (node) nodes.push(node)
+    else pos++
+  }
+
+  const root = nodes.length ? makeGroup('AND', nodes) : emptyGroup()
+  return root.kind === 'group' ? root : { kind: 'group', combinator: 'AND', children: [root] }
+}
@@ -0,0 +1,39 @@
+import type { AnalysisRequest, TaskStatusResponse } from '@/types/api'
+
+// Rough per-paper processing time used when a task has no throughput yet
+export const SECONDS_PER_PAPER = 3
+
+type QueuedRequest = Pick<AnalysisRequest, 'max_papers' | 'data_source'>
+
+export function estimateDuration(request: QueuedRequest, secondsPerPaper = SECONDS_PER_PAPER): number {
+  return request.max_papers * secondsPerPaper
+}
+
+// Remaining time of a running task: the server's estimate if it has one, otherwise
+// extrapolated from the task's own throughput
+export function estimateRemaining(task: TaskStatusResponse): number {
+  if (task.estimated_remaining !== undefined && task.estimated_remaining !== null) {
+    return task.estimated_remaining
+  }
+  const total = task.total_papers || task.max_papers
+  const remaining = Math.max(0, total - task.processed_papers)
+  const perPaper = task.processed_papers > 0 && task.elapsed_seconds
+    ? task.elapsed_seconds / task.processed_papers
+    : SECONDS_PER_PAPER
+  return remaining * perPaper
+}
+
+// Seconds until each queued request is expected to start, in queue order.
+// `secondsPerPaper` lets callers plug in a per-source rate from past runs.
+export function queueStartTimes(
+  activeTask: TaskStatusResponse | null | undefined,
+  requests: QueuedRequest[],
+  secondsPerPaper: (request: QueuedRequest) => number = () => SECONDS_PER_PAPER
+): number[] {
+  let offset = activeTask ? estimateRemaining(activeTask) : 0
+  return requests.map(request => {
+    const start = offset
+    offset += estimateDuration(request, secondsPerPaper(request))
+    return start
+  })
+}
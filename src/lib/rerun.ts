@@ -0,0 +1,54 @@
+import type { TaskLineage, RerunMode } from '@/store'
+import type { AnalysisRequest, PaperData, TaskStatusResponse } from '@/types/api'
+
+export const RERUN_LABELS: Record<RerunMode, string> = {
+  rerun: 'Re-run',
+  retry_failed: 'Retry of failed papers',
+}
+
+// Sources whose query syntax can select papers by id
+const ID_QUERY_SOURCES = ['arxiv']
+
+export function failedPaperIds(papers: PaperData[] = []): string[] {
+  return papers.filter(p => p.processing_status !== 'completed').map(p => p.paper_id)
+}
+
+export function canRetryFailed(task: TaskStatusResponse, paperIds: string[]): boolean {
+  return paperIds.length > 0 && ID_QUERY_SOURCES.includes(task.data_source)
+}
+
+// arXiv ids carry a version suffix the search API doesn't match on
+export function retryQuery(paperIds: string[]): string {
+  return paperIds.map(id => `id:${id.replace(/v\d+$/, '')}`).join(' OR ')
+}
+
+// Analysis form link prefilled with the task's parameters
+export function rerunPath(task: TaskStatusResponse, mode: RerunMode = 'rerun', paperIds: string[] = []): string {
+  const params = new URLSearchParams({
+    query: mode === 'retry_failed' ? retryQuery(paperIds) : task.query,
+    data_source: task.data_source,
+    max_papers: String(mode === 'retry_failed' ? paperIds.length : task.max_papers),
+    parent: task.task_id,
+    mode,
+  })
+  return `/analyze?${params}`
+}
+
+// Reads what rerunPath wrote; the query param alone is also used by other links
+export function rerunFromParams(params: URLSearchParams): { request: Partial<AnalysisRequest>; parent?: TaskLineage } {
+  const request: Partial<AnalysisRequest> = {}
+  const query = params.get('query')
+  if (query) request.query = query
+  const dataSource = params.get('data_source')
+  if (dataSource === 'arxiv' || dataSource === 'semantic_scholar' || dataSource === 'openalex') {
+    request.data_source = dataSource
+  }
+  const maxPapers = Number(params.get('max_papers'))
+  if (maxPapers > 0) request.max_papers = maxPapers
+
+  const parentId = params.get('parent')
+  const parent = parentId
+    ? { parent_id: parentId, mode: params.get('mode') === 'retry_failed' ? 'retry_failed' as const : 'rerun' as const }
+    : undefined
+  return { request, parent }
+}
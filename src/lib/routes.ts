@@ -0,0 +1,13 @@
+// Path builders for routes whose params may contain reserved characters
+
+export function paperPath(taskId: string, paperId: string): string {
+  return `/task/${taskId}/paper/${encodeURIComponent(paperId)}`
+}
+
+export function orgPath(name: string): string {
+  return `/org/${encodeURIComponent(name)}`
+}
+
+export function authorPath(name: string): string {
+  return `/author/${encodeURIComponent(name)}`
+}
@@ -0,0 +1,74 @@
+import type { ProcessingStage } from '@/types/api'
+import type { StageTimeline } from '@/store'
+
+// Stage labels and colors for progress display
+export const STAGE_LABELS: Record<string, { label: string; color: string }> = {
+  idle: { label: 'Waiting...', color: 'bg-gray-400' },
+  searching: { label: 'Searching papers', color: 'bg-blue-500' },
+  downloading: { label: 'Downloading PDFs', color: 'bg-cyan-500' },
+  parsing: { label: 'Parsing documents', color: 'bg-teal-500' },
+  extracting: { label: 'Extracting affiliations', color: 'bg-green-500' },
+  normalizing: { label: 'Normalizing organizations', color: 'bg-yellow-500' },
+  aggregating: { label: 'Building report', color: 'bg-orange-500' },
+  completed: { label: 'Completed', color: 'bg-emerald-500' },
+  failed: { label: 'Failed', color: 'bg-red-500' },
+}
+
+// Working stages in pipeline order; idle and terminal stages are left out of breakdowns
+export const PIPELINE_STAGES: ProcessingStage[] = [
+  'searching',
+  'downloading',
+  'parsing',
+  'extracting',
+  'normalizing',
+  'aggregating',
+]
+
+export interface StageSummary {
+  stage: ProcessingStage
+  // Milliseconds since the first recorded stage started
+  offset: number
+  duration: number
+  papers: number
+  // Papers per minute, when the stage processed any
+  throughput?: number
+}
+
+export interface TimelineSummary {
+  stages: StageSummary[]
+  total: number
+  papers: number
+  throughput?: number
+  // Longest stage, the likely bottleneck
+  slowest?: StageSummary
+}
+
+function perMinute(papers: number, ms: number): number | undefined {
+  return papers > 0 && ms > 0 ? papers / (ms / 60_000) : undefined
+}
+
+export function summarizeTimeline(timeline: StageTimeline): TimelineSummary {
+  const spans = timeline.stages.filter(span => PIPELINE_STAGES.includes(span.stage))
+  if (spans.length === 0) return { stages: [], total: 0, papers: 0 }
+
+  const origin = new Date(spans[0].started_at).getTime()
+  const stages = spans.map(span => {
+    const start = new Date(span.started_at).getTime()
+    const duration = Math.max(0, new Date(span.ended_at).getTime() - start)
+    const papers = Math.max(0, span.processed_end - span.processed_start)
+    return {
+      stage: span.stage,
+      offset: start - origin,
+      duration,
+      papers,
+      throughput: perMinute(papers, duration),
+    }
+  })
+
+  const last = stages[stages.length - 1]
+  const total = last.offset + last.duration
+  const papers = Math.max(...spans.map(span => span.processed_end))
+  const slowest = stages.reduce((a, b) => b.duration > a.duration ? b : a)
+
+  return { stages, total, papers, throughput: perMinute(papers, total), slowest: slowest.duration > 0 ? slowest : undefined }
+}
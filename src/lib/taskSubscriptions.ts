@@ -0,0 +1,266 @@
+import type { QueryClient } from '@tanstack/react-query'
+import { createWebSocket, getTaskStatus } from '@/lib/api'
+import { eventFromMessage } from '@/lib/events'
+import { notifyTaskFinished } from '@/lib/notifications'
+import { useEventLogStore, useStageHistoryStore, useTaskStore, type TaskConnectionState } from '@/store'
+import type { TaskProgress, TaskStatusResponse, WSMessage } from '@/types/api'
+
+// Reconnect delay doubles per failed attempt up to the cap; jitter spreads out tabs reconnecting together
+const BASE_RECONNECT_MS = 1000
+const MAX_RECONNECT_MS = 30000
+// Consecutive failed attempts before status is polled while reconnecting continues
+const POLL_AFTER_FAILURES = 2
+const POLL_INTERVAL_MS = 5000
+// A connection only counts as recovered once it has stayed open this long or delivered a message,
+// so a proxy that accepts and immediately drops the socket still ends up polling
+const STABLE_CONNECTION_MS = 10000
+
+interface Subscription {
+  subscribers: number
+  ws: WebSocket | null
+  failures: number
+  reconnectTimer: ReturnType<typeof setTimeout> | null
+  pollTimer: ReturnType<typeof setInterval> | null
+  // Set once the task stops running; nothing reconnects after that
+  finished: boolean
+}
+
+// One connection per task, shared by every view subscribed to it
+const subscriptions = new Map<string, Subscription>()
+
+export function taskProgressKey(taskId: string) {
+  return ['taskProgress', taskId] as const
+}
+
+function reconnectDelay(failures: number): number {
+  const base = Math.min(MAX_RECONNECT_MS, BASE_RECONNECT_MS * 2 ** failures)
+  return base / 2 + Math.random() * base / 2
+}
+
+function setConnection(taskId: string, state: TaskConnectionState | null) {
+  useTaskStore.getState().setConnectionState(taskId, state)
+}
+
+function progressFromStatus(status: TaskStatusResponse): TaskProgress {
+  return {
+    task_id: status.task_id,
+    stage: status.stage,
+    progress: status.progress,
+    message: `Processing ${status.current_paper_title || '...'}`,
+    current_paper: status.current_paper_title,
+    processed: status.processed_papers,
+    total: status.total_papers,
+    timestamp: status.updated_at || new Date().toISOString(),
+  }
+}
+
+function cachedStatus(queryClient: QueryClient, taskId: string): TaskStatusResponse | undefined {
+  const active = queryClient.getQueryData<TaskStatusResponse | null>(['activeTask'])
+  return queryClient.getQueryData<TaskStatusResponse>(['taskStatus', taskId])
+    ?? (active?.task_id === taskId ? active : undefined)
+}
+
+function dataSourceFor(queryClient: QueryClient, taskId: string): string | undefined {
+  return cachedStatus(queryClient, taskId)?.data_source
+}
+
+// Progress messages are real-time, so they always win and are patched into the cached status
+function applyProgress(queryClient: QueryClient, taskId: string, progress: TaskProgress) {
+  queryClient.setQueryData(taskProgressKey(taskId), progress)
+  const patch = (status: TaskStatusResponse) => ({
+    ...status,
+    stage: progress.stage,
+    progress: progress.progress,
+    processed_papers: progress.processed,
+    total_papers: progress.total,
+    current_paper_title: progress.current_paper ?? status.current_paper_title,
+    updated_at: progress.timestamp,
+  })
+  queryClient.setQueryData<TaskStatusResponse>(['taskStatus', taskId], prev => prev && patch(prev))
+  queryClient.setQueryData<TaskStatusResponse | null>(['activeTask'], prev =>
+    prev?.task_id === taskId ? patch(prev) : prev
+  )
+  useStageHistoryStore.getState().recordProgress(progress, dataSourceFor(queryClient, taskId))
+}
+
+function finish(queryClient: QueryClient, taskId: string) {
+  const subscription = subscriptions.get(taskId)
+  if (subscription) {
+    subscription.finished = true
+    stopPolling(subscription)
+    if (subscription.reconnectTimer) clearTimeout(subscription.reconnectTimer)
+    if (subscription.ws) {
+      subscription.ws.onclose = null
+      subscription.ws.close()
+      subscription.ws = null
+    }
+    setConnection(taskId, null)
+  }
+  queryClient.invalidateQueries({ queryKey: ['taskStatus', taskId] })
+  queryClient.invalidateQueries({ queryKey: ['taskResults', taskId] })
+  queryClient.invalidateQueries({ queryKey: ['taskAnalytics', taskId] })
+  queryClient.invalidateQueries({ queryKey: ['activeTask'] })
+  queryClient.invalidateQueries({ queryKey: ['tasks'] })
+}
+
+// Status snapshots arrive on connect and from polling; they may be older than the last progress message
+function applyStatus(queryClient: QueryClient, taskId: string, status: TaskStatusResponse) {
+  if (status.status !== 'running' && status.status !== 'pending') {
+    // Task stopped (completed, failed or cancelled) - take the server's status as final
+    queryClient.setQueryData<TaskStatusResponse>(['taskStatus', taskId], status)
+    notifyTaskFinished(status)
+    finish(queryClient, taskId)
+    return
+  }
+  const current = queryClient.getQueryData<TaskProgress>(taskProgressKey(taskId))
+  if (!current || status.processed_papers > current.processed) {
+    applyProgress(queryClient, taskId, progressFromStatus(status))
+  }
+  queryClient.setQueryData<TaskStatusResponse>(['taskStatus', taskId], prev => ({
+    ...status,
+    // Keep fresher counters from progress messages
+    ...(prev && prev.processed_papers > status.processed_papers ? {
+      stage: prev.stage,
+      progress: prev.progress,
+      processed_papers: prev.processed_papers,
+      current_paper_title: prev.current_paper_title,
+    } : {}),
+  }))
+}
+
+function handleMessage(queryClient: QueryClient, taskId: string, message: WSMessage) {
+  useEventLogStore.getState().append(taskId, eventFromMessage(message))
+  if (message.type === 'progress') {
+    applyProgress(queryClient, taskId, message.data as TaskProgress)
+  } else if (message.type === 'status') {
+    applyStatus(queryClient, taskId, message.data as TaskStatusResponse)
+  } else if (message.type === 'completed') {
+    const status = cachedStatus(queryClient, taskId)
+    if (status) notifyTaskFinished({ ...status, status: 'completed' })
+    finish(queryClient, taskId)
+  } else if (message.type === 'error') {
+    // Errors can be per paper; only the refreshed status says whether the task failed
+    getTaskStatus(taskId)
+      .then(status => applyStatus(queryClient, taskId, status))
+      .catch(() => queryClient.invalidateQueries({ queryKey: ['taskStatus', taskId] }))
+  }
+}
+
+function startPolling(queryClient: QueryClient, taskId: string, subscription: Subscription) {
+  if (subscription.pollTimer) return
+  setConnection(taskId, 'polling')
+  const poll = () => {
+    getTaskStatus(taskId)
+      .then(status => {
+        if (!subscription.finished) applyStatus(queryClient, taskId, status)
+      })
+      .catch(() => {
+        // Backend unreachable too; keep polling until the socket or the server comes back
+      })
+  }
+  poll()
+  subscription.pollTimer = setInterval(poll, POLL_INTERVAL_MS)
+}
+
+function stopPolling(subscription: Subscription) {
+  if (subscription.pollTimer) clearInterval(subscription.pollTimer)
+  subscription.pollTimer = null
+}
+
+function connect(queryClient: QueryClient, taskId: string, subscription: Subscription) {
+  if (subscription.finished || subscription.subscribers === 0) return
+  const { append } = useEventLogStore.getState()
+
+  const ws = createWebSocket(taskId)
+  subscription.ws = ws
+  let healthy = false
+  let stableTimer: ReturnType<typeof setTimeout> | null = null
+
+  const markHealthy = () => {
+    if (healthy || subscription.ws !== ws) return
+    healthy = true
+    if (stableTimer) clearTimeout(stableTimer)
+    subscription.failures = 0
+    stopPolling(subscription)
+  }
+
+  ws.onopen = () => {
+    setConnection(taskId, 'connected')
+    append(taskId, { type: 'connection', severity: 'info', message: 'Connected' })
+    stableTimer = setTimeout(markHealthy, STABLE_CONNECTION_MS)
+  }
+
+  ws.onmessage = (event) => {
+    markHealthy()
+    if (event.data === 'ping' || event.data === 'pong') {
+      if (event.data === 'ping') ws.send('pong')
+      return
+    }
+    try {
+      handleMessage(queryClient, taskId, JSON.parse(event.data) as WSMessage)
+    } catch (e) {
+      // Ignore parse errors for non-JSON messages
+    }
+  }
+
+  ws.onerror = () => {
+    append(taskId, { type: 'connection', severity: 'warning', message: 'Connection error' })
+  }
+
+  ws.onclose = () => {
+    subscription.ws = null
+    if (stableTimer) clearTimeout(stableTimer)
+    if (subscription.finished || subscription.subscribers === 0) return
+    if (!healthy) subscription.failures++
+    const delay = reconnectDelay(subscription.failures)
+    append(taskId, {
+      type: 'connection',
+      severity: 'warning',
+      message: `Connection closed, reconnecting in ${(delay / 1000).toFixed(1)}s`,
+    })
+    if (subscription.failures >= POLL_AFTER_FAILURES) {
+      startPolling(queryClient, taskId, subscription)
+    } else {
+      setConnection(taskId, 'reconnecting')
+    }
+    subscription.reconnectTimer = setTimeout(() => {
+      subscription.reconnectTimer = null
+      connect(queryClient, taskId, subscription)
+    }, delay)
+  }
+}
+
+function close(taskId: string, subscription: Subscription) {
+  stopPolling(subscription)
+  if (subscription.reconnectTimer) clearTimeout(subscription.reconnectTimer)
+  if (subscription.ws) {
+    subscription.ws.onclose = null // Prevent reconnection on cleanup
+    subscription.ws.close()
+  }
+  subscriptions.delete(taskId)
+  setConnection(taskId, null)
+}
+
+// Live updates for a running task, written into the query cache under taskStatus and taskProgress.
+// Returns the unsubscribe function; the connection closes when the last subscriber leaves.
+export function subscribeToTask(queryClient: QueryClient, taskId: string): () => void {
+  let subscription = subscriptions.get(taskId)
+  if (!subscription) {
+    subscription = { subscribers: 0, ws: null, failures: 0, reconnectTimer: null, pollTimer: null, finished: false }
+    subscriptions.set(taskId, subscription)
+    setConnection(taskId, 'connecting')
+    subscription.subscribers++
+    connect(queryClient, taskId, subscription)
+  } else {
+    subscription.subscribers++
+  }
+
+  const current = subscription
+  let unsubscribed = false
+  return () => {
+    if (unsubscribed) return
+    unsubscribed = true
+    current.subscribers--
+    if (current.subscribers === 0 && subscriptions.get(taskId) === current) close(taskId, current)
+  }
+}
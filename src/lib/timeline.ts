@@ -0,0 +1,133 @@
+import type { PaperData } from '@/types/api'
+import { authorCountry } from '@/lib/papers'
+
+export type TimeBucket = 'day' | 'week' | 'month'
+export type TimelineBreakdown = 'none' | 'country' | 'org_type'
+
+export interface TimelineRow {
+  bucket: string
+  total: number
+  [series: string]: string | number
+}
+
+const MAX_SERIES = 5
+
+function toUtcDate(date: string): Date | null {
+  const parsed = new Date(`${date.slice(0, 10)}T00:00:00Z`)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+// Weeks start on Monday and are keyed by that day
+export function bucketKey(date: Date, bucket: TimeBucket): string {
+  const d = new Date(date)
+  if (bucket === 'month') return d.toISOString().slice(0, 7)
+  if (bucket === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7))
+  return d.toISOString().slice(0, 10)
+}
+
+function nextBucket(key: string, bucket: TimeBucket): string {
+  const d = new Date(bucket === 'month' ? `${key}-01T00:00:00Z` : `${key}T00:00:00Z`)
+  if (bucket === 'month') d.setUTCMonth(d.getUTCMonth() + 1)
+  else d.setUTCDate(d.getUTCDate() + (bucket === 'week' ? 7 : 1))
+  return bucketKey(d, bucket)
+}
+
+function paperSeriesKeys(paper: PaperData, breakdown: TimelineBreakdown): string[] {
+  const values = paper.authors.map(a => breakdown === 'country' ? authorCountry(a) : a.org_type)
+  return Array.from(new Set(values.filter((v): v is string => !!v)))
+}
+
+// Beyond this many buckets the chart is unreadable and slow; one stray date such as
+// 1900-01-01 would otherwise produce tens of thousands of daily rows
+const MAX_BUCKETS = 500
+const BUCKET_ORDER: TimeBucket[] = ['day', 'week', 'month']
+const BUCKET_DAYS: Record<TimeBucket, number> = { day: 1, week: 7, month: 30 }
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// The requested bucket, or the next coarser one that keeps the range under MAX_BUCKETS
+function fittingBucket(dates: Date[], requested: TimeBucket): { bucket: TimeBucket; fits: boolean } {
+  if (dates.length === 0) return { bucket: requested, fits: true }
+  const times = dates.map(d => d.getTime())
+  const spanDays = (Math.max(...times) - Math.min(...times)) / DAY_MS
+  for (const bucket of BUCKET_ORDER.slice(BUCKET_ORDER.indexOf(requested))) {
+    if (spanDays / BUCKET_DAYS[bucket] <= MAX_BUCKETS) return { bucket, fits: true }
+  }
+  return { bucket: 'month', fits: false }
+}
+
+export function buildTimeline(
+  papersByDate: Record<string, number>,
+  papers: PaperData[],
+  requestedBucket: TimeBucket,
+  breakdown: TimelineBreakdown
+): { rows: TimelineRow[]; series: string[]; bucket: TimeBucket } {
+  // Fall back to the papers' own dates if the backend sent no histogram
+  let dateCounts = papersByDate
+  if (Object.keys(dateCounts).length === 0) {
+    dateCounts = {}
+    for (const paper of papers) {
+      if (paper.published_date) {
+        const date = paper.published_date.slice(0, 10)
+        dateCounts[date] = (dateCounts[date] || 0) + 1
+      }
+    }
+  }
+
+  const dates = Object.keys(dateCounts).map(toUtcDate)
+  if (breakdown !== 'none') dates.push(...papers.map(p => p.published_date ? toUtcDate(p.published_date) : null))
+  const { bucket, fits } = fittingBucket(dates.filter((d): d is Date => !!d), requestedBucket)
+
+  const totals = new Map<string, number>()
+  for (const [date, count] of Object.entries(dateCounts)) {
+    const parsed = toUtcDate(date)
+    if (!parsed) continue
+    const key = bucketKey(parsed, bucket)
+    totals.set(key, (totals.get(key) || 0) + count)
+  }
+
+  // Series are the most frequent countries / org types, counted per paper
+  let series: string[] = []
+  const seriesCounts = new Map<string, Map<string, number>>()
+  if (breakdown !== 'none') {
+    const frequency = new Map<string, number>()
+    for (const paper of papers) {
+      paperSeriesKeys(paper, breakdown).forEach(k => frequency.set(k, (frequency.get(k) || 0) + 1))
+    }
+    series = Array.from(frequency.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_SERIES)
+      .map(([key]) => key)
+
+    for (const paper of papers) {
+      const parsed = paper.published_date ? toUtcDate(paper.published_date) : null
+      if (!parsed) continue
+      const key = bucketKey(parsed, bucket)
+      const counts = seriesCounts.get(key) || new Map<string, number>()
+      for (const value of paperSeriesKeys(paper, breakdown)) {
+        if (series.includes(value)) counts.set(value, (counts.get(value) || 0) + 1)
+      }
+      seriesCounts.set(key, counts)
+      if (!totals.has(key)) totals.set(key, 0)
+    }
+  }
+
+  const keys = Array.from(totals.keys()).sort()
+  if (keys.length === 0) return { rows: [], series, bucket }
+
+  // Fill empty buckets so gaps show up as zero rather than being skipped, unless even
+  // months span too many buckets; then only buckets with papers are shown
+  const filled: string[] = []
+  if (fits) {
+    const last = keys[keys.length - 1]
+    for (let key = keys[0]; key <= last; key = nextBucket(key, bucket)) filled.push(key)
+  }
+  const rows = (fits ? filled : keys).map(key => {
+    const row: TimelineRow = { bucket: key, total: totals.get(key) || 0 }
+    for (const name of series) {
+      row[name] = seriesCounts.get(key)?.get(name) || 0
+    }
+    return row
+  })
+
+  return { rows, series, bucket }
+}
@@ -1,21 +1,6 @@
-import React, { useState, useEffect, useRef } from 'react'
-// Main categories for 'Select All' (OpenAlex/ArXiv concepts)
-const ALL_CATEGORIES = [
-  'artificial intelligence',
-  'machine learning',
-  'computer vision',
-  'natural language processing',
-  'neural network',
-  'robotics',
-  'information retrieval',
-  'software engineering',
-  'database',
-  'distributed computing',
-  'cryptography',
-  'programming languages',
-]
+import React, { useState } from 'react'
 import { useNavigate, useSearchParams, Link } from 'react-router-dom'
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useMutation, useQuery } from '@tanstack/react-query'
 import { motion, AnimatePresence } from 'framer-motion'
 import { 
   Search, 
@@ -29,7 +14,14 @@ import {
   Clock,
   FileText,
   Users,
-  AlertCircle
+  AlertCircle,
+  SlidersHorizontal,
+  ListTree,
+  ListPlus,
+  Bookmark,
+  Ban,
+  RotateCcw,
+  X
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -46,43 +38,58 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { useToast } from '@/components/ui/use-toast'
-import { startAnalysis, getDataSources, getQueryExamples, getActiveTask, createWebSocket } from '@/lib/api'
-import type { AnalysisRequest, TaskProgress } from '@/types/api'
-
-// Stage labels for progress display
-const STAGE_LABELS: Record<string, { label: string; color: string }> = {
-  idle: { label: 'Waiting...', color: 'bg-gray-400' },
-  searching: { label: 'Searching papers', color: 'bg-blue-500' },
-  downloading: { label: 'Downloading PDFs', color: 'bg-cyan-500' },
-  parsing: { label: 'Parsing documents', color: 'bg-teal-500' },
-  extracting: { label: 'Extracting affiliations', color: 'bg-green-500' },
-  normalizing: { label: 'Normalizing organizations', color: 'bg-yellow-500' },
-  aggregating: { label: 'Building report', color: 'bg-orange-500' },
-  completed: { label: 'Completed', color: 'bg-emerald-500' },
-  failed: { label: 'Failed', color: 'bg-red-500' },
-}
+import TaskQueue from '@/components/task/TaskQueue'
+import QueryBuilder from '@/components/analysis/QueryBuilder'
+import TaxonomyPicker from '@/components/analysis/TaxonomyPicker'
+import RunEstimate from '@/components/analysis/RunEstimate'
+import { useCancelTask } from '@/hooks/useCancelTask'
+import { useTaskSubscription } from '@/hooks/useTaskSubscription'
+import { resolvePresetRequest } from '@/lib/presets'
+import { RERUN_LABELS, rerunFromParams } from '@/lib/rerun'
+import { STAGE_LABELS } from '@/lib/stages'
+import { querySyntaxFor, validateQuery } from '@/lib/queryBuilder'
+import {
+  ARXIV_TAXONOMY,
+  SEMANTIC_SCHOLAR_FIELDS,
+  categoriesFromQuery,
+  categoriesToQuery,
+  fieldsFromQuery,
+  fieldsToQuery,
+} from '@/lib/taxonomy'
+import { useLineageStore, usePresetStore, useQueueStore } from '@/store'
+import { startAnalysis, getDataSources, getQueryExamples, getActiveTask, isConflict } from '@/lib/api'
+import type { AnalysisRequest } from '@/types/api'
 
 export default function Analysis() {
   const navigate = useNavigate()
-  const queryClient = useQueryClient()
   const [searchParams] = useSearchParams()
   const { toast } = useToast()
+  const { cancel, isCancelling } = useCancelTask()
+  const { items: queuedItems, enqueue } = useQueueStore()
+  const { presets, savePreset } = usePresetStore()
+  const [presetName, setPresetName] = useState('')
+  const [showBuilder, setShowBuilder] = useState(false)
+  const [showPicker, setShowPicker] = useState(false)
   
-  const [taskProgress, setTaskProgress] = useState<TaskProgress | null>(null)
-  const taskProgressRef = useRef<TaskProgress | null>(null)
-  
-  // Keep ref in sync with state
-  useEffect(() => {
-    taskProgressRef.current = taskProgress
-  }, [taskProgress])
-
-  const [formData, setFormData] = useState<AnalysisRequest>({
-    query: searchParams.get('query') || 'cat:cs.AI',
-    max_papers: 10,
-    data_source: 'arxiv',
-    date_from: undefined,
-    date_to: undefined,
+  const [formData, setFormData] = useState<AnalysisRequest>(() => {
+    // Opened from the presets page
+    const preset = presets.find(p => p.id === searchParams.get('preset'))
+    if (preset) return resolvePresetRequest(preset)
+    // Opened from another link, e.g. re-running a task
+    const { request } = rerunFromParams(searchParams)
+    return {
+      query: 'cat:cs.AI',
+      max_papers: 10,
+      data_source: 'arxiv',
+      date_from: undefined,
+      date_to: undefined,
+      ...request,
+    }
   })
+  // Preset this form was opened from; runs started from it join the preset's series
+  const [presetId] = useState(() => presets.find(p => p.id === searchParams.get('preset'))?.id)
+  // Task this submission re-runs, linked to the new task once it starts
+  const [parent, setParent] = useState(() => rerunFromParams(searchParams).parent)
 
   // Check for active task
   const { data: activeTask, isLoading: activeTaskLoading, refetch: refetchActiveTask } = useQuery({
@@ -106,96 +113,21 @@ export default function Analysis() {
     queryFn: getQueryExamples,
   })
 
-  // WebSocket for real-time progress updates when there's an active task
-  useEffect(() => {
-    if (!activeTask?.task_id || activeTask.status !== 'running') {
-      setTaskProgress(null)
-      return
-    }
-
-    let ws: WebSocket | null = null
-    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
-    let isMounted = true
-
-    const connect = () => {
-      if (!isMounted) return
-      
-      ws = createWebSocket(activeTask.task_id)
-      
-      ws.onopen = () => {
-        console.log('[WS] Connected to task', activeTask.task_id)
-      }
-      
-      ws.onmessage = (event) => {
-        if (event.data === 'ping' || event.data === 'pong') {
-          if (event.data === 'ping' && ws) ws.send('pong')
-          return
-        }
-        
-        try {
-          const message = JSON.parse(event.data)
-          if (message.type === 'progress') {
-            // Always update from progress messages - they are real-time
-            setTaskProgress(message.data as TaskProgress)
-          } else if (message.type === 'status') {
-            // Status message is initial state on connect - only use if we don't have progress yet
-            // Don't overwrite existing progress as it may be more recent
-            const statusData = message.data as any
-            const currentProgress = taskProgressRef.current
-            if (!currentProgress || statusData.processed_papers > currentProgress.processed) {
-              setTaskProgress({
-                task_id: statusData.task_id,
-                stage: statusData.stage,
-                progress: statusData.progress,
-                message: `Processing ${statusData.current_paper_title || '...'}`,
-                current_paper: statusData.current_paper_title,
-                processed: statusData.processed_papers,
-                total: statusData.total_papers,
-                timestamp: statusData.updated_at || new Date().toISOString(),
-              })
-            }
-          } else if (message.type === 'completed') {
-            // Task completed, refetch active task
-            setTaskProgress(null)
-            refetchActiveTask()
-            queryClient.invalidateQueries({ queryKey: ['tasks'] })
-          }
-        } catch (e) {
-          // Ignore parse errors for non-JSON messages
-        }
-      }
-
-      ws.onerror = (error) => {
-        console.log('[WS] Error, will reconnect...', error)
-      }
-
-      ws.onclose = () => {
-        console.log('[WS] Closed')
-        // Reconnect after 2 seconds if still mounted and task is running
-        if (isMounted && activeTask.status === 'running') {
-          reconnectTimeout = setTimeout(() => {
-            console.log('[WS] Reconnecting...')
-            connect()
-          }, 2000)
-        }
-      }
-    }
-
-    connect()
-
-    return () => {
-      isMounted = false
-      if (reconnectTimeout) clearTimeout(reconnectTimeout)
-      if (ws) {
-        ws.onclose = null // Prevent reconnection on cleanup
-        ws.close()
-      }
-    }
-  }, [activeTask?.task_id, activeTask?.status, refetchActiveTask, queryClient])
+  // Real-time progress for the active task, shared with the task page
+  const { progress: taskProgress } = useTaskSubscription(activeTask?.task_id, activeTask?.status === 'running')
 
   const mutation = useMutation({
     mutationFn: startAnalysis,
-    onSuccess: (data) => {
+    onSuccess: (data, request) => {
+      if (presetId) {
+        usePresetStore.getState().recordRun(presetId, {
+          task_id: data.task_id,
+          started_at: data.created_at,
+          date_from: request.date_from,
+          date_to: request.date_to,
+        })
+      }
+      if (parent) useLineageStore.getState().link(data.task_id, parent)
       toast({
         title: 'Analysis Started',
         description: `Task ${data.task_id} has been created`,
@@ -204,14 +136,10 @@ export default function Analysis() {
       refetchActiveTask()
       navigate(`/task/${data.task_id}`)
     },
-    onError: (error: Error & { message?: string }) => {
+    onError: (error: Error & { message?: string }, request) => {
       // Check if it's a conflict error (task already running)
-      if (error.message?.includes('already running')) {
-        toast({
-          variant: 'destructive',
-          title: 'Task Already Running',
-          description: 'Please wait for the current task to complete',
-        })
+      if (isConflict(error)) {
+        addToQueue(request)
         refetchActiveTask()
       } else {
         toast({
@@ -223,9 +151,45 @@ export default function Analysis() {
     },
   })
 
+  const addToQueue = (request: AnalysisRequest) => {
+    enqueue(request, presetId, parent)
+    toast({
+      title: 'Added to Queue',
+      description: `Position ${useQueueStore.getState().items.length}, starts automatically when the server is free`,
+    })
+  }
+
+  // Queue behind the running task and anything already waiting, to keep submission order
+  const shouldQueue = !!activeTask || queuedItems.length > 0
+
+  const handleSavePreset = () => {
+    const name = presetName.trim()
+    if (!name) return
+    savePreset(name, formData)
+    setPresetName('')
+    toast({
+      title: 'Preset Saved',
+      description: `Schedule "${name}" from the Presets page`,
+    })
+  }
+
+  const selectedSource = dataSources.find(s => s.id === formData.data_source)
+  const querySyntax = querySyntaxFor(formData.data_source, selectedSource?.query_syntax)
+  const queryIssues = validateQuery(formData.query, querySyntax)
+  const hasQueryErrors = queryIssues.some(issue => issue.severity === 'error')
+  // arXiv is searched by category; free-text sources get fields of study as keywords
+  const picker = querySyntax === 'fielded'
+    ? { label: 'Categories', groups: ARXIV_TAXONOMY, fromQuery: categoriesFromQuery, toQuery: categoriesToQuery }
+    : { label: 'Fields of Study', groups: SEMANTIC_SCHOLAR_FIELDS, fromQuery: fieldsFromQuery, toQuery: fieldsToQuery }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    mutation.mutate(formData)
+    if (hasQueryErrors) return
+    if (shouldQueue) {
+      addToQueue(formData)
+    } else {
+      mutation.mutate(formData)
+    }
   }
 
   const currentExamples = queryExamples[formData.data_source] || []
@@ -238,6 +202,7 @@ export default function Analysis() {
   } : null)
   
   const stageInfo = STAGE_LABELS[currentProgress?.stage || 'idle'] || STAGE_LABELS.idle
+  const activeTaskCancelling = !!activeTask && isCancelling(activeTask.task_id)
 
   return (
     <div className="max-w-4xl mx-auto space-y-6 sm:space-y-8">
@@ -262,17 +227,29 @@ export default function Analysis() {
                 <div className="flex items-center justify-between">
                   <CardTitle className="flex items-center gap-2 text-lg">
                     <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
-                    Task Running
+                    {activeTaskCancelling ? 'Cancelling Task' : 'Task Running'}
                   </CardTitle>
-                  <Link to={`/task/${activeTask.task_id}`}>
-                    <Button variant="outline" size="sm" className="gap-2">
-                      <Eye className="h-4 w-4" />
-                      View Details
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 text-red-500 hover:text-red-500"
+                      onClick={() => cancel(activeTask.task_id)}
+                      disabled={activeTaskCancelling}
+                    >
+                      <Ban className="h-4 w-4" />
+                      <span className="hidden sm:inline">Cancel</span>
                     </Button>
-                  </Link>
+                    <Link to={`/task/${activeTask.task_id}`}>
+                      <Button variant="outline" size="sm" className="gap-2">
+                        <Eye className="h-4 w-4" />
+                        View Details
+                      </Button>
+                    </Link>
+                  </div>
                 </div>
                 <CardDescription>
-                  Another analysis is currently in progress. You can view its progress below.
+                  Another analysis is currently in progress. New analyses are queued and start when it finishes.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -321,24 +298,104 @@ export default function Analysis() {
         )}
       </AnimatePresence>
 
+      {/* Queue */}
+      <TaskQueue activeTask={activeTask} />
+
       <div className="grid gap-6 lg:grid-cols-3">
         {/* Main Form */}
         <div className="lg:col-span-2">
-          <Card className={activeTask ? 'opacity-60 pointer-events-none' : ''}>
+          <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Search className="h-5 w-5" />
                 Analysis Configuration
               </CardTitle>
               <CardDescription>
-                {activeTask 
-                  ? 'Form disabled while another task is running'
+                {shouldQueue
+                  ? 'Submitting adds this analysis to the queue'
                   : 'Configure your paper search parameters'
                 }
               </CardDescription>
             </CardHeader>
             <CardContent>
               <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Re-run source */}
+                {parent && (
+                  <div className="flex items-center gap-2 rounded-lg border bg-muted/50 px-3 py-2 text-xs sm:text-sm">
+                    <RotateCcw className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <span className="flex-1 min-w-0 truncate">
+                      {RERUN_LABELS[parent.mode]} of{' '}
+                      <Link to={`/task/${parent.parent_id}`} className="font-mono underline">
+                        {parent.parent_id.slice(0, 8)}
+                      </Link>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      onClick={() => setParent(undefined)}
+                      title="Don't link to the original task"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+
+                {/* Presets */}
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Bookmark className="h-4 w-4" />
+                    Presets
+                  </Label>
+                  <div className="flex flex-col sm:flex-row gap-2">
+                    {presets.length > 0 && (
+                      <Select
+                        value=""
+                        onValueChange={(id) => {
+                          const preset = presets.find(p => p.id === id)
+                          if (preset) setFormData(resolvePresetRequest(preset))
+                        }}
+                      >
+                        <SelectTrigger className="sm:w-48">
+                          <SelectValue placeholder="Load preset" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {presets.map(preset => (
+                            <SelectItem key={preset.id} value={preset.id}>
+                              {preset.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <div className="flex flex-1 gap-2">
+                      <Input
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') {
+                            e.preventDefault()
+                            handleSavePreset()
+                          }
+                        }}
+                        placeholder="Save current settings as..."
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim()}
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Manage schedules and view run series on the <Link to="/presets" className="underline">Presets</Link> page
+                  </p>
+                </div>
+
                 {/* Data Source */}
                 <div className="space-y-2">
                   <Label htmlFor="data_source" className="flex items-center gap-2">
@@ -351,7 +408,6 @@ export default function Analysis() {
                       ...prev,
                       data_source: value as AnalysisRequest['data_source'],
                     }))}
-                    disabled={!!activeTask}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Select data source" />
@@ -371,44 +427,90 @@ export default function Analysis() {
                       ))}
                     </SelectContent>
                   </Select>
-                  {dataSources.find(s => s.id === formData.data_source)?.description && (
+                  {selectedSource?.description && (
                     <p className="text-xs text-muted-foreground">
-                      {dataSources.find(s => s.id === formData.data_source)?.description}
+                      {selectedSource.description}
                     </p>
                   )}
                 </div>
 
                 {/* Search Query */}
                 <div className="space-y-2">
-                  <Label htmlFor="query" className="flex items-center gap-2">
-                    <Search className="h-4 w-4" />
-                    Search Query
-                  </Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="query" className="flex items-center gap-2">
+                      <Search className="h-4 w-4" />
+                      Search Query
+                    </Label>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant={showPicker ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={() => setShowPicker(prev => !prev)}
+                      >
+                        <ListTree className="h-3 w-3" />
+                        {picker.label}
+                      </Button>
+                      <Button
+                        type="button"
+                        variant={showBuilder ? 'secondary' : 'ghost'}
+                        size="sm"
+                        className="h-7 gap-1 text-xs"
+                        onClick={() => setShowBuilder(prev => !prev)}
+                      >
+                        <SlidersHorizontal className="h-3 w-3" />
+                        Builder
+                      </Button>
+                    </div>
+                  </div>
                   <Input
                     id="query"
                     value={formData.query}
                     onChange={(e) => setFormData(prev => ({ ...prev, query: e.target.value }))}
                     placeholder="e.g., cat:cs.AI"
-                    className="font-mono"
-                    disabled={!!activeTask}
+                    className={`font-mono ${hasQueryErrors ? 'border-red-500' : ''}`}
                   />
+                  {queryIssues.length > 0 && (
+                    <ul className="space-y-1">
+                      {queryIssues.map((issue, i) => (
+                        <li
+                          key={i}
+                          className={`flex items-start gap-1 text-xs ${issue.severity === 'error' ? 'text-red-500' : 'text-yellow-600 dark:text-yellow-500'}`}
+                        >
+                          <AlertCircle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {showPicker && (
+                    <TaxonomyPicker
+                      key={formData.data_source}
+                      groups={picker.groups}
+                      initialSelected={picker.fromQuery(formData.query)}
+                      describe={picker.toQuery}
+                      onApply={(selected) => {
+                        setFormData(prev => ({ ...prev, query: picker.toQuery(selected) }))
+                        setShowPicker(false)
+                      }}
+                    />
+                  )}
+                  {showBuilder && (
+                    <QueryBuilder
+                      key={formData.data_source}
+                      query={formData.query}
+                      syntax={querySyntax}
+                      onChange={(query) => setFormData(prev => ({ ...prev, query }))}
+                    />
+                  )}
                   <div className="flex flex-wrap gap-2 mt-2">
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="secondary"
-                      className="font-mono"
-                      disabled={!!activeTask}
-                      onClick={() => setFormData(prev => ({ ...prev, query: ALL_CATEGORIES.join(' ') }))}
-                    >
-                      Select All Categories
-                    </Button>
                     {currentExamples.length > 0 && currentExamples.map((example) => (
                       <Badge
                         key={example.query}
                         variant="outline"
                         className="cursor-pointer hover:bg-accent"
-                        onClick={() => !activeTask && setFormData(prev => ({ ...prev, query: example.query }))}
+                        onClick={() => setFormData(prev => ({ ...prev, query: example.query }))}
                       >
                         {example.query}
                       </Badge>
@@ -433,7 +535,6 @@ export default function Analysis() {
                         max_papers: parseInt(e.target.value) || 10 
                       }))}
                       className="w-full sm:w-24"
-                      disabled={!!activeTask}
                     />
                     <div className="flex gap-2 flex-wrap">
                       {[10, 25, 50, 100].map(n => (
@@ -442,8 +543,7 @@ export default function Analysis() {
                           type="button"
                           variant={formData.max_papers === n ? 'default' : 'outline'}
                           size="sm"
-                          onClick={() => !activeTask && setFormData(prev => ({ ...prev, max_papers: n }))}
-                          disabled={!!activeTask}
+                          onClick={() => setFormData(prev => ({ ...prev, max_papers: n }))}
                           className="flex-1 sm:flex-none"
                         >
                           {n}
@@ -472,7 +572,6 @@ export default function Analysis() {
                           ...prev, 
                           date_from: e.target.value || undefined 
                         }))}
-                        disabled={!!activeTask}
                       />
                     </div>
                     <div>
@@ -487,7 +586,6 @@ export default function Analysis() {
                           ...prev, 
                           date_to: e.target.value || undefined 
                         }))}
-                        disabled={!!activeTask}
                       />
                     </div>
                   </div>
@@ -498,17 +596,17 @@ export default function Analysis() {
                   type="submit" 
                   size="lg" 
                   className="w-full gap-2"
-                  disabled={mutation.isPending || !!activeTask}
+                  disabled={mutation.isPending || hasQueryErrors}
                 >
                   {mutation.isPending ? (
                     <>
                       <Loader2 className="h-4 w-4 animate-spin" />
                       Starting...
                     </>
-                  ) : activeTask ? (
+                  ) : shouldQueue ? (
                     <>
-                      <AlertCircle className="h-4 w-4" />
-                      Task Already Running
+                      <ListPlus className="h-4 w-4" />
+                      Add to Queue
                     </>
                   ) : (
                     <>
@@ -524,35 +622,7 @@ export default function Analysis() {
 
         {/* Sidebar Help - appears first on mobile */}
         <div className="space-y-4 sm:space-y-6 order-first lg:order-last">
-          <div className="grid grid-cols-2 lg:grid-cols-1 gap-4">
-            <Card>
-              <CardHeader className="pb-2 sm:pb-4">
-                <CardTitle className="text-sm sm:text-base">Estimated Time</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-xl sm:text-2xl font-bold">
-                  ~{Math.ceil(formData.max_papers * 3 / 60)} min
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  Based on ~3 seconds per paper
-                </p>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader className="pb-2 sm:pb-4">
-                <CardTitle className="text-sm sm:text-base">Estimated Cost</CardTitle>
-              </CardHeader>
-              <CardContent>
-                <p className="text-xl sm:text-2xl font-bold text-green-500">
-                  ~${(formData.max_papers * 0.0005).toFixed(3)}
-                </p>
-                <p className="text-xs text-muted-foreground">
-                  Based on gpt-4o-mini pricing
-                </p>
-              </CardContent>
-            </Card>
-          </div>
+          <RunEstimate request={formData} />
 
           <Card className="hidden sm:block">
             <CardHeader>
@@ -562,6 +632,9 @@ export default function Analysis() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4 text-sm">
+              {selectedSource?.query_syntax && (
+                <p className="text-xs text-muted-foreground">{selectedSource.query_syntax}</p>
+              )}
               {formData.data_source === 'arxiv' && (
                 <div className="space-y-3">
                   <div>
@@ -0,0 +1,353 @@
+import { useMemo, useState } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import {
+  ArrowLeft,
+  CheckCircle2,
+  Circle,
+  Download,
+  Loader2,
+  Plus,
+  Trash2,
+  Ban,
+  PenLine,
+  ChevronRight,
+} from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import { getTasks, getTaskResults } from '@/lib/api'
+import { annotationFromPaper, toGoldStandard } from '@/lib/goldStandard'
+import { cn, downloadFile, truncate } from '@/lib/utils'
+import { useAnnotationStore, type AnnotatedAuthor, type AnnotatedPaper } from '@/store'
+
+const ORG_TYPES = ['academic', 'company', 'government', 'nonprofit', 'unknown']
+
+export default function Annotate() {
+  const { taskId } = useParams<{ taskId: string }>()
+  const navigate = useNavigate()
+  const { toast } = useToast()
+  const { drafts, savePaper, clearDraft } = useAnnotationStore()
+  const [selectedPaperId, setSelectedPaperId] = useState<string | null>(null)
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['tasks', 'completed'],
+    queryFn: () => getTasks('completed'),
+  })
+
+  const { data: results, isLoading } = useQuery({
+    queryKey: ['taskResults', taskId],
+    queryFn: () => getTaskResults(taskId!),
+    enabled: !!taskId,
+  })
+
+  const draft = taskId ? drafts[taskId] : undefined
+  const papers = useMemo(() => results?.papers || [], [results])
+  const reviewedCount = papers.filter(p => draft?.papers[p.paper_id]?.reviewed).length
+
+  const currentPaper = papers.find(p => p.paper_id === selectedPaperId) || papers[0]
+  const annotation: AnnotatedPaper | undefined = currentPaper
+    ? draft?.papers[currentPaper.paper_id] || annotationFromPaper(currentPaper)
+    : undefined
+
+  const updateAnnotation = (changes: Partial<AnnotatedPaper>) => {
+    if (!taskId || !annotation) return
+    savePaper(taskId, { ...annotation, ...changes })
+  }
+
+  const updateAuthor = (index: number, changes: Partial<AnnotatedAuthor>) => {
+    if (!annotation) return
+    updateAnnotation({
+      authors: annotation.authors.map((author, i) => i === index ? { ...author, ...changes } : author),
+    })
+  }
+
+  const addAuthor = () => {
+    if (!annotation) return
+    updateAnnotation({
+      authors: [
+        ...annotation.authors,
+        { name: '', normalized_affiliation: '', country_code: '', org_type: 'unknown', hallucinated: false },
+      ],
+    })
+  }
+
+  const removeAuthor = (index: number) => {
+    if (!annotation) return
+    updateAnnotation({ authors: annotation.authors.filter((_, i) => i !== index) })
+  }
+
+  const markReviewedAndNext = () => {
+    if (!currentPaper) return
+    updateAnnotation({ reviewed: true })
+    const index = papers.findIndex(p => p.paper_id === currentPaper.paper_id)
+    const next = papers.slice(index + 1).find(p => !draft?.papers[p.paper_id]?.reviewed)
+    if (next) setSelectedPaperId(next.paper_id)
+  }
+
+  const handleExport = () => {
+    if (!draft || reviewedCount === 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Nothing to Export',
+        description: 'Mark at least one paper as reviewed first',
+      })
+      return
+    }
+    const gold = toGoldStandard(draft)
+    downloadFile(JSON.stringify(gold, null, 2), `gold_standard_${draft.task_id}.json`, 'application/json')
+    toast({
+      title: 'Gold Standard Exported',
+      description: `${gold.papers.length} reviewed papers written to file`,
+    })
+  }
+
+  const handleClear = () => {
+    if (taskId && confirm('Discard all annotations for this task?')) {
+      clearDraft(taskId)
+    }
+  }
+
+  const originalAuthors = currentPaper?.authors || []
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          {taskId && (
+            <Link
+              to={`/task/${taskId}`}
+              className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-3 sm:mb-4"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Task
+            </Link>
+          )}
+          <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Gold Standard Annotation</h1>
+          <p className="text-muted-foreground text-sm sm:text-base">
+            Correct extracted authors and export an evaluation dataset
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={taskId} onValueChange={(value) => navigate(`/annotate/${value}`)}>
+            <SelectTrigger className="w-48 sm:w-64">
+              <SelectValue placeholder="Select a completed task" />
+            </SelectTrigger>
+            <SelectContent>
+              {tasks.map(task => (
+                <SelectItem key={task.task_id} value={task.task_id}>
+                  <span className="font-mono text-xs">{truncate(task.query, 30)}</span>
+                  {drafts[task.task_id] && (
+                    <span className="ml-2 text-xs text-muted-foreground">(draft)</span>
+                  )}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!taskId && (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <PenLine className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">Select a task to annotate</h3>
+            <p className="text-muted-foreground text-sm">
+              Drafts are saved in this browser, so you can continue across sessions
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {taskId && isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {taskId && results && (
+        <>
+          {/* Progress */}
+          <Card>
+            <CardContent className="p-4 sm:p-6 space-y-3">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div className="text-sm">
+                  <span className="font-medium">{reviewedCount}</span> of {papers.length} papers reviewed
+                  {draft?.updated_at && (
+                    <span className="text-muted-foreground ml-2 text-xs">
+                      Last saved {new Date(draft.updated_at).toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" onClick={handleClear} disabled={!draft}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear Draft
+                  </Button>
+                  <Button size="sm" onClick={handleExport} className="gap-2">
+                    <Download className="h-4 w-4" />
+                    Export JSON
+                  </Button>
+                </div>
+              </div>
+              <Progress value={papers.length ? (reviewedCount / papers.length) * 100 : 0} className="h-2" />
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* Paper List */}
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Papers</CardTitle>
+              </CardHeader>
+              <CardContent className="max-h-[300px] lg:max-h-[600px] overflow-auto space-y-1">
+                {papers.map(paper => {
+                  const reviewed = draft?.papers[paper.paper_id]?.reviewed
+                  const isSelected = paper.paper_id === currentPaper?.paper_id
+                  return (
+                    <button
+                      key={paper.paper_id}
+                      onClick={() => setSelectedPaperId(paper.paper_id)}
+                      className={cn(
+                        'w-full flex items-start gap-2 rounded-lg px-3 py-2 text-left text-sm transition-colors',
+                        isSelected ? 'bg-primary/10 text-primary' : 'hover:bg-accent'
+                      )}
+                    >
+                      {reviewed ? (
+                        <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-500" />
+                      ) : (
+                        <Circle className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+                      )}
+                      <span className="line-clamp-2">{paper.title}</span>
+                    </button>
+                  )
+                })}
+              </CardContent>
+            </Card>
+
+            {/* Editor */}
+            {annotation && currentPaper && (
+              <Card className="lg:col-span-2">
+                <CardHeader className="pb-2 sm:pb-4">
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="text-sm sm:text-base">{currentPaper.title}</CardTitle>
+                      <CardDescription className="text-xs sm:text-sm">
+                        {currentPaper.paper_id} • {originalAuthors.length} extracted authors
+                      </CardDescription>
+                    </div>
+                    <Badge variant={annotation.reviewed ? 'success' : 'secondary'} className="flex-shrink-0 self-start">
+                      {annotation.reviewed ? 'Reviewed' : 'Pending'}
+                    </Badge>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {annotation.authors.map((author, i) => {
+                    // Drafts saved before source_index existed fall back to matching by name
+                    const original = author.source_index !== undefined
+                      ? originalAuthors[author.source_index]
+                      : originalAuthors.find(a => a.name === author.name)
+                    return (
+                      <div
+                        key={i}
+                        className={cn(
+                          'p-3 border rounded-lg space-y-2',
+                          author.hallucinated && 'border-red-500/50 bg-red-500/5'
+                        )}
+                      >
+                        <div className="grid gap-2 sm:grid-cols-2">
+                          <Input
+                            value={author.name}
+                            onChange={(e) => updateAuthor(i, { name: e.target.value })}
+                            placeholder="Author name"
+                            className={cn(author.hallucinated && 'line-through')}
+                          />
+                          <Input
+                            value={author.normalized_affiliation}
+                            onChange={(e) => updateAuthor(i, { normalized_affiliation: e.target.value })}
+                            placeholder="Normalized affiliation"
+                            disabled={author.hallucinated}
+                          />
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Input
+                            value={author.country_code}
+                            onChange={(e) => updateAuthor(i, { country_code: e.target.value.toUpperCase() })}
+                            placeholder="Country"
+                            maxLength={2}
+                            className="w-20 font-mono uppercase"
+                            disabled={author.hallucinated}
+                          />
+                          <Select
+                            value={author.org_type}
+                            onValueChange={(value) => updateAuthor(i, { org_type: value })}
+                            disabled={author.hallucinated}
+                          >
+                            <SelectTrigger className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Array.from(new Set([...ORG_TYPES, author.org_type])).map(type => (
+                                <SelectItem key={type} value={type}>{type}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            type="button"
+                            variant={author.hallucinated ? 'destructive' : 'outline'}
+                            size="sm"
+                            onClick={() => updateAuthor(i, { hallucinated: !author.hallucinated })}
+                            className="gap-1"
+                          >
+                            <Ban className="h-3 w-3" />
+                            Hallucinated
+                          </Button>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeAuthor(i)}
+                            className="ml-auto text-muted-foreground hover:text-red-500"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {original?.raw_affiliation && (
+                          <p className="text-xs text-muted-foreground">
+                            Raw: {original.raw_affiliation}
+                          </p>
+                        )}
+                      </div>
+                    )
+                  })}
+
+                  <div className="flex flex-col sm:flex-row gap-2 justify-between">
+                    <Button type="button" variant="outline" size="sm" onClick={addAuthor} className="gap-2">
+                      <Plus className="h-4 w-4" />
+                      Add Missing Author
+                    </Button>
+                    <Button type="button" size="sm" onClick={markReviewedAndNext} className="gap-2">
+                      Mark Reviewed & Next
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,308 @@
+import { useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { ArrowLeft, User, Users, FileText, Building2, Globe, Loader2, GitMerge, Split, RotateCcw } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { useCompletedTaskPapers } from '@/hooks/useCompletedTaskPapers'
+import { allAuthorNames, buildAuthorProfile, findNameVariants, nameKey, pairKey } from '@/lib/authors'
+import { authorPath, orgPath, paperPath } from '@/lib/routes'
+import { cn, formatNumber, truncate } from '@/lib/utils'
+import { useAuthorNameStore } from '@/store'
+
+export default function Author() {
+  const { name = '' } = useParams<{ name: string }>()
+  const { tasks, loaded, total, limited, isLoading } = useCompletedTaskPapers()
+  const { decisions, setDecision } = useAuthorNameStore()
+
+  const allNames = useMemo(() => allAuthorNames(tasks), [tasks])
+  const variants = useMemo(() => findNameVariants(name, allNames, decisions), [name, allNames, decisions])
+  const profile = useMemo(
+    () => buildAuthorProfile([name, ...variants.filter(v => v.merged).map(v => v.name)], tasks),
+    [name, variants, tasks]
+  )
+  const found = profile.papers.length > 0
+  // Spellings this person appears under in the merged papers
+  const spellings = Array.from(new Set(profile.papers.map(p => p.author.name)))
+
+  const confidenceData = profile.confidence.map((point, i) => ({
+    name: `#${i + 1}`,
+    confidence: Number(point.confidence.toFixed(1)),
+    query: truncate(point.query, 40),
+    date: point.date ? new Date(point.date).toLocaleDateString() : '',
+  }))
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div className="space-y-1 min-w-0">
+        <Link
+          to="/results"
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-3 sm:mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Results
+        </Link>
+        <h1 className="flex items-center gap-3 text-2xl sm:text-3xl font-bold tracking-tight">
+          <User className="h-6 sm:h-7 w-6 sm:w-7 flex-shrink-0" />
+          <span className="truncate">{name}</span>
+        </h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {spellings.filter(s => nameKey(s) !== nameKey(name)).map(spelling => (
+            <Badge key={spelling} variant="outline">{spelling}</Badge>
+          ))}
+          {isLoading && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading tasks {loaded}/{total}
+            </span>
+          )}
+          {limited && (
+            <span className="text-xs text-muted-foreground">
+              Covers the latest {total} completed tasks only
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Name Variants */}
+      {variants.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2 sm:pb-4">
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              <GitMerge className="h-4 sm:h-5 w-4 sm:w-5" />
+              Name Variants
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm">
+              Spellings that may be the same person. Merged variants count towards this profile.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {variants.map(variant => (
+              <div key={variant.name} className="flex flex-col sm:flex-row sm:items-center gap-2 rounded-lg border p-2 sm:p-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Link to={authorPath(variant.name)} className="text-sm font-medium hover:underline">
+                      {variant.name}
+                    </Link>
+                    <Badge variant={variant.merged ? 'success' : 'secondary'} className="text-xs">
+                      {variant.merged ? 'Merged' : 'Separate'}
+                    </Badge>
+                    {variant.overridden && <Badge variant="outline" className="text-xs">Manual</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {variant.reason} • suggested {variant.suggested ? 'merge' : 'keeping separate'}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-8 text-xs"
+                    onClick={() => setDecision(pairKey(name, variant.name), variant.merged ? 'split' : 'merge')}
+                  >
+                    {variant.merged ? <Split className="mr-1 h-3 w-3" /> : <GitMerge className="mr-1 h-3 w-3" />}
+                    {variant.merged ? 'Split' : 'Merge'}
+                  </Button>
+                  {decisions[pairKey(name, variant.name)] && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 text-xs"
+                      onClick={() => setDecision(pairKey(name, variant.name), null)}
+                      title="Go back to the suggestion"
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {!found && !isLoading ? (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <User className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">Author not found</h3>
+            <p className="text-muted-foreground">
+              "{name}" does not appear in {total} completed task{total !== 1 && 's'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {[
+              { label: 'Papers', value: formatNumber(profile.papers.length), icon: FileText },
+              { label: 'Affiliations', value: formatNumber(profile.affiliations.length), icon: Building2 },
+              { label: 'Countries', value: profile.countries.map(c => c.value).join(', ') || '-', icon: Globe },
+              { label: 'Co-authors', value: formatNumber(profile.coauthors.length), icon: Users },
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="p-4 sm:pt-6">
+                  <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+                    <stat.icon className="h-4 w-4" />
+                    {stat.label}
+                  </div>
+                  <p className="mt-1 text-lg sm:text-2xl font-bold truncate">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Affiliations */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                <Building2 className="h-4 sm:h-5 w-4 sm:w-5" />
+                Affiliation History
+              </CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                Every affiliation extracted for this author, dated by publication
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto -mx-4 sm:mx-0">
+                <table className="w-full text-xs sm:text-sm min-w-[600px]">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-2">Raw Affiliation</th>
+                      <th className="text-left py-2 px-2">Normalized</th>
+                      <th className="text-left py-2 px-2">As</th>
+                      <th className="text-left py-2 px-2">Seen</th>
+                      <th className="text-right py-2 px-2">Papers</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.affiliations.map((affiliation, i) => (
+                      <tr key={i} className="border-b align-top">
+                        <td className="py-2 px-2 text-muted-foreground max-w-[250px]">{affiliation.raw || '-'}</td>
+                        <td className="py-2 px-2">
+                          {affiliation.normalized ? (
+                            <Link to={orgPath(affiliation.normalized)} className="hover:underline">
+                              {affiliation.normalized}
+                            </Link>
+                          ) : '-'}
+                        </td>
+                        <td className="py-2 px-2 whitespace-nowrap">{affiliation.name}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">
+                          {affiliation.first_seen === affiliation.last_seen
+                            ? affiliation.first_seen || '-'
+                            : `${affiliation.first_seen} → ${affiliation.last_seen}`}
+                        </td>
+                        <td className="text-right py-2 px-2">{affiliation.count}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-3">
+            {/* Confidence trend */}
+            <Card className="lg:col-span-2">
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Extraction Confidence</CardTitle>
+                <CardDescription className="text-xs sm:text-sm">
+                  Average confidence for this author in each task, oldest first
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={240}>
+                  <BarChart data={confidenceData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                    <YAxis domain={[0, 100]} unit="%" />
+                    <Tooltip
+                      labelFormatter={(_, payload) => {
+                        const point = payload?.[0]?.payload
+                        return point ? `${point.query} (${point.date})` : ''
+                      }}
+                      formatter={(value) => [`${value}%`, 'Confidence']}
+                    />
+                    <Bar dataKey="confidence" fill="#10b981" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            {/* Co-authors */}
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                  <Users className="h-4 sm:h-5 w-4 sm:w-5" />
+                  Frequent Co-authors
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 max-h-72 overflow-y-auto">
+                {profile.coauthors.length === 0 && (
+                  <p className="text-xs sm:text-sm text-muted-foreground">No co-authors</p>
+                )}
+                {profile.coauthors.slice(0, 20).map(coauthor => (
+                  <div key={coauthor.name} className="flex items-center justify-between gap-2 text-xs sm:text-sm">
+                    <Link to={authorPath(coauthor.name)} className="truncate hover:underline">{coauthor.name}</Link>
+                    <Badge variant="secondary">{coauthor.papers}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Papers */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                <FileText className="h-4 sm:h-5 w-4 sm:w-5" />
+                Papers
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto -mx-4 sm:mx-0">
+                <table className="w-full text-xs sm:text-sm min-w-[500px]">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-2">Title</th>
+                      <th className="text-left py-2 px-2">Listed As</th>
+                      <th className="text-left py-2 px-2">Published</th>
+                      <th className="text-right py-2 px-2">Confidence</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.papers.map(({ paper, task_ids, author }) => (
+                      <tr key={paper.paper_id} className="border-b">
+                        <td className="py-2 px-2 max-w-[300px]">
+                          <Link to={paperPath(task_ids[0], paper.paper_id)} className="hover:underline">
+                            {truncate(paper.title, 90)}
+                          </Link>
+                        </td>
+                        <td className={cn('py-2 px-2 whitespace-nowrap', nameKey(author.name) !== nameKey(name) && 'text-muted-foreground')}>
+                          {author.name}
+                        </td>
+                        <td className="py-2 px-2 whitespace-nowrap">{paper.published_date?.slice(0, 10) || '-'}</td>
+                        <td className="text-right py-2 px-2">{(author.confidence * 100).toFixed(0)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
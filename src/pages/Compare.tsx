@@ -0,0 +1,309 @@
+import { useSearchParams, Link } from 'react-router-dom'
+import { useQuery, useQueries } from '@tanstack/react-query'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts'
+import { GitCompare, ArrowUp, ArrowDown, Minus, Loader2, X } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { getTasks, getTaskAnalytics, getTaskStatus } from '@/lib/api'
+import { compareCountries, compareOrganizations, compareOrgTypes, type RankedEntry } from '@/lib/compare'
+import { CHART_COLORS, cn, formatNumber, formatPercentage, truncate } from '@/lib/utils'
+import type { AnalyticsData } from '@/types/api'
+
+const SUMMARY_METRICS: { label: string; value: (a: AnalyticsData) => number; format: (n: number) => string }[] = [
+  { label: 'Papers', value: a => a.total_papers, format: formatNumber },
+  { label: 'Authors', value: a => a.total_authors, format: formatNumber },
+  { label: 'Unique authors', value: a => a.unique_authors, format: formatNumber },
+  { label: 'Organizations', value: a => a.unique_organizations, format: formatNumber },
+  { label: 'Countries', value: a => a.unique_countries, format: formatNumber },
+  { label: 'Avg authors / paper', value: a => a.avg_authors_per_paper, format: n => n.toFixed(1) },
+  { label: 'Avg confidence', value: a => a.avg_confidence * 100, format: formatPercentage },
+]
+
+function Delta({ value, baseline, format }: { value: number; baseline: number; format: (n: number) => string }) {
+  const diff = value - baseline
+  if (Math.abs(diff) < 1e-9) return null
+  return (
+    <span className={cn('ml-1 text-xs', diff > 0 ? 'text-green-500' : 'text-red-500')}>
+      ({diff > 0 ? '+' : '-'}{format(Math.abs(diff))})
+    </span>
+  )
+}
+
+function RankChange({ rank, baseline }: { rank?: number; baseline?: number }) {
+  if (rank === undefined) return <Minus className="h-3 w-3 text-muted-foreground" />
+  if (baseline === undefined) return <Badge variant="secondary" className="text-[10px] px-1.5 py-0">new</Badge>
+  if (rank === baseline) return null
+  const improved = rank < baseline
+  const Icon = improved ? ArrowUp : ArrowDown
+  return (
+    <span className={cn('inline-flex items-center text-xs', improved ? 'text-green-500' : 'text-red-500')}>
+      <Icon className="h-3 w-3" />
+      {Math.abs(baseline - rank)}
+    </span>
+  )
+}
+
+function toChartData(entries: RankedEntry[], labels: string[]) {
+  return entries.map(entry => ({
+    name: truncate(entry.name, 18),
+    ...Object.fromEntries(entry.values.map((v, i) => [labels[i], Number(v.percentage.toFixed(1))])),
+  }))
+}
+
+export default function Compare() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const taskIds = (searchParams.get('tasks') || '').split(',').filter(Boolean)
+
+  const setTaskIds = (ids: string[]) => {
+    setSearchParams(ids.length ? { tasks: ids.join(',') } : {}, { replace: true })
+  }
+
+  const toggleTask = (taskId: string) => {
+    setTaskIds(taskIds.includes(taskId) ? taskIds.filter(id => id !== taskId) : [...taskIds, taskId])
+  }
+
+  const { data: completedTasks = [] } = useQuery({
+    queryKey: ['tasks', 'completed'],
+    queryFn: () => getTasks('completed'),
+  })
+
+  const statusQueries = useQueries({
+    queries: taskIds.map(id => ({
+      queryKey: ['taskStatus', id],
+      queryFn: () => getTaskStatus(id),
+    })),
+  })
+
+  const analyticsQueries = useQueries({
+    queries: taskIds.map(id => ({
+      queryKey: ['taskAnalytics', id],
+      queryFn: () => getTaskAnalytics(id),
+    })),
+  })
+
+  const isLoading = analyticsQueries.some(q => q.isLoading)
+  const analytics = analyticsQueries.map(q => q.data).filter((a): a is AnalyticsData => !!a)
+  const ready = !isLoading && analytics.length === taskIds.length && taskIds.length >= 2
+
+  const labels = taskIds.map((id, i) => `#${i + 1} ${truncate(statusQueries[i]?.data?.query || id.slice(0, 8), 20)}`)
+
+  const organizations = ready ? compareOrganizations(analytics) : []
+  const countries = ready ? compareCountries(analytics) : []
+  const orgTypes = ready ? compareOrgTypes(analytics) : []
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Compare Tasks</h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          See how the institutional landscape differs between analyses
+        </p>
+      </div>
+
+      {/* Task Picker */}
+      <Card>
+        <CardHeader className="pb-2 sm:pb-4">
+          <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+            <GitCompare className="h-4 sm:h-5 w-4 sm:w-5" />
+            Tasks
+          </CardTitle>
+          <CardDescription className="text-xs sm:text-sm">
+            The first selected task is the baseline for deltas and rank changes
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {taskIds.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {taskIds.map((id, i) => (
+                <Badge key={id} variant={i === 0 ? 'default' : 'secondary'} className="gap-1 pr-1">
+                  <Link to={`/task/${id}`} className="hover:underline">{labels[i]}</Link>
+                  <button onClick={() => toggleTask(id)} className="rounded-full hover:bg-background/20 p-0.5">
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {completedTasks.filter(t => !taskIds.includes(t.task_id)).map(task => (
+              <Badge
+                key={task.task_id}
+                variant="outline"
+                className="cursor-pointer hover:bg-accent font-mono text-xs"
+                onClick={() => toggleTask(task.task_id)}
+              >
+                + {truncate(task.query, 30)}
+              </Badge>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {taskIds.length < 2 && (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <GitCompare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">Select at least two tasks</h3>
+            <p className="text-muted-foreground text-sm">
+              Pick completed tasks above to compare their analytics
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {taskIds.length >= 2 && isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {ready && (
+        <>
+          {/* Summary */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="text-sm sm:text-base">Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full text-xs sm:text-sm min-w-[500px]">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2">Metric</th>
+                    {labels.map(label => (
+                      <th key={label} className="text-right py-2 px-2 font-mono">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SUMMARY_METRICS.map(metric => (
+                    <tr key={metric.label} className="border-b">
+                      <td className="py-2 px-2">{metric.label}</td>
+                      {analytics.map((a, i) => (
+                        <td key={i} className="text-right py-2 px-2 whitespace-nowrap">
+                          {metric.format(metric.value(a))}
+                          {i > 0 && (
+                            <Delta value={metric.value(a)} baseline={metric.value(analytics[0])} format={metric.format} />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          {/* Top Organizations */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="text-sm sm:text-base">Top Organizations</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                Rank and author count per task, with rank change against the baseline
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full text-xs sm:text-sm min-w-[600px]">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2">Organization</th>
+                    {labels.map(label => (
+                      <th key={label} className="text-right py-2 px-2 font-mono">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {organizations.map(org => (
+                    <tr key={org.name} className="border-b">
+                      <td className="py-2 px-2 max-w-[220px] truncate">{org.name}</td>
+                      {org.values.map((value, i) => (
+                        <td key={i} className="text-right py-2 px-2 whitespace-nowrap">
+                          <div className="inline-flex items-center gap-2">
+                            {value.rank !== undefined ? (
+                              <span>
+                                <span className="text-muted-foreground">#{value.rank}</span> {value.count}
+                              </span>
+                            ) : (
+                              <span className="text-muted-foreground">-</span>
+                            )}
+                            {i > 0 && <RankChange rank={value.rank} baseline={org.values[0].rank} />}
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          {/* Distributions */}
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Country Distribution</CardTitle>
+                <CardDescription className="text-xs sm:text-sm">Share of authors (%)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={Math.max(250, countries.length * 36)}>
+                  <BarChart data={toChartData(countries, labels)} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" tick={{ fontSize: 10 }} unit="%" />
+                    <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 10 }} />
+                    <Tooltip formatter={(value: number) => formatPercentage(value)} />
+                    <Legend wrapperStyle={{ fontSize: '12px' }} />
+                    {labels.map((label, i) => (
+                      <Bar key={label} dataKey={label} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="text-sm sm:text-base">Organization Type Mix</CardTitle>
+                <CardDescription className="text-xs sm:text-sm">Share of authors (%)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={Math.max(250, orgTypes.length * 36)}>
+                  <BarChart data={toChartData(orgTypes, labels)} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" tick={{ fontSize: 10 }} unit="%" />
+                    <YAxis type="category" dataKey="name" width={100} tick={{ fontSize: 10 }} />
+                    <Tooltip formatter={(value: number) => formatPercentage(value)} />
+                    <Legend wrapperStyle={{ fontSize: '12px' }} />
+                    {labels.map((label, i) => (
+                      <Bar key={label} dataKey={label} fill={CHART_COLORS[i % CHART_COLORS.length]} />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      {taskIds.length >= 2 && !isLoading && !ready && (
+        <Card className="border-red-500/50 bg-red-500/5">
+          <CardContent className="p-4 sm:p-6 flex items-center justify-between gap-4">
+            <p className="text-sm">Analytics could not be loaded for some of the selected tasks.</p>
+            <Button variant="outline" size="sm" onClick={() => analyticsQueries.forEach(q => q.refetch())}>
+              Retry
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,232 @@
+import { useMemo } from 'react'
+import { useParams, Link } from 'react-router-dom'
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts'
+import { ArrowLeft, Building2, Users, FileText, Globe, Calendar, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useCompletedTaskPapers } from '@/hooks/useCompletedTaskPapers'
+import { buildOrganizationProfile } from '@/lib/organizations'
+import { authorPath, paperPath } from '@/lib/routes'
+import { formatNumber, truncate } from '@/lib/utils'
+
+export default function Organization() {
+  const { name = '' } = useParams<{ name: string }>()
+  const { tasks, loaded, total, limited, isLoading } = useCompletedTaskPapers()
+
+  const profile = useMemo(() => buildOrganizationProfile(name, tasks), [name, tasks])
+  const found = profile.papers.length > 0
+
+  const trendData = profile.trend.map((point, i) => ({
+    name: `#${i + 1}`,
+    authors: point.authors,
+    share: Number(point.share.toFixed(1)),
+    query: truncate(point.query, 40),
+    date: point.date ? new Date(point.date).toLocaleDateString() : '',
+  }))
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div className="space-y-1 min-w-0">
+        <Link
+          to="/results"
+          className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-3 sm:mb-4"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Results
+        </Link>
+        <h1 className="flex items-center gap-3 text-2xl sm:text-3xl font-bold tracking-tight">
+          <Building2 className="h-6 sm:h-7 w-6 sm:w-7 flex-shrink-0" />
+          <span className="truncate">{profile.name}</span>
+        </h1>
+        <div className="flex flex-wrap items-center gap-2">
+          {profile.org_types.map(type => (
+            <Badge key={type.value} variant="outline">{type.value}</Badge>
+          ))}
+          {isLoading && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading tasks {loaded}/{total}
+            </span>
+          )}
+          {limited && (
+            <span className="text-xs text-muted-foreground">
+              Covers the latest {total} completed tasks only
+            </span>
+          )}
+        </div>
+      </div>
+
+      {!found && !isLoading ? (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <Building2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">Organization not found</h3>
+            <p className="text-muted-foreground">
+              No author in {total} completed task{total !== 1 && 's'} is affiliated with "{name}"
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid gap-4 grid-cols-2 lg:grid-cols-4">
+            {[
+              { label: 'Authors', value: formatNumber(profile.authors.length), icon: Users },
+              { label: 'Papers', value: formatNumber(profile.papers.length), icon: FileText },
+              { label: 'Tasks', value: `${profile.tasks} / ${profile.trend.length}`, icon: Building2 },
+              {
+                label: 'Seen',
+                value: profile.first_seen
+                  ? profile.first_seen === profile.last_seen ? profile.first_seen : `${profile.first_seen} → ${profile.last_seen}`
+                  : '-',
+                icon: Calendar,
+              },
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="p-4 sm:pt-6">
+                  <div className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+                    <stat.icon className="h-4 w-4" />
+                    {stat.label}
+                  </div>
+                  <p className="mt-1 text-lg sm:text-2xl font-bold truncate">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Trend */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="text-sm sm:text-base">Authors per Task</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                Affiliated authors in each completed task, oldest first
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={trendData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip
+                    labelFormatter={(_, payload) => {
+                      const point = payload?.[0]?.payload
+                      return point ? `${point.query} (${point.date})` : ''
+                    }}
+                    formatter={(value, _, item) => [`${value} (${item.payload.share}% of authors)`, 'Authors']}
+                  />
+                  <Bar dataKey="authors" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 sm:gap-6 lg:grid-cols-3">
+            {/* Authors */}
+            <Card className="lg:col-span-2">
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                  <Users className="h-4 sm:h-5 w-4 sm:w-5" />
+                  Authors
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="w-full text-xs sm:text-sm">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-2">Name</th>
+                        <th className="text-right py-2 px-2">Papers</th>
+                        <th className="text-right py-2 px-2">Tasks</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {profile.authors.map(author => (
+                        <tr key={author.name} className="border-b">
+                          <td className="py-2 px-2">
+                            <Link to={authorPath(author.name)} className="hover:underline">{author.name}</Link>
+                          </td>
+                          <td className="text-right py-2 px-2">{author.papers}</td>
+                          <td className="text-right py-2 px-2">{author.tasks}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Countries */}
+            <Card>
+              <CardHeader className="pb-2 sm:pb-4">
+                <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                  <Globe className="h-4 sm:h-5 w-4 sm:w-5" />
+                  Countries
+                </CardTitle>
+                <CardDescription className="text-xs sm:text-sm">By affiliated author</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {profile.countries.length === 0 && (
+                  <p className="text-xs sm:text-sm text-muted-foreground">No country was resolved</p>
+                )}
+                {profile.countries.map(country => (
+                  <div key={country.value} className="flex items-center justify-between text-xs sm:text-sm">
+                    <span>{country.value}</span>
+                    <Badge variant="secondary">{country.count}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Papers */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+                <FileText className="h-4 sm:h-5 w-4 sm:w-5" />
+                Papers
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto -mx-4 sm:mx-0">
+                <table className="w-full text-xs sm:text-sm min-w-[500px]">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2 px-2">Title</th>
+                      <th className="text-left py-2 px-2">Affiliated Authors</th>
+                      <th className="text-left py-2 px-2">Published</th>
+                      <th className="text-right py-2 px-2">Tasks</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.papers.map(({ paper, task_ids, authors }) => (
+                      <tr key={paper.paper_id} className="border-b">
+                        <td className="py-2 px-2 max-w-[300px]">
+                          <Link to={paperPath(task_ids[0], paper.paper_id)} className="hover:underline">
+                            {truncate(paper.title, 90)}
+                          </Link>
+                        </td>
+                        <td className="py-2 px-2 text-muted-foreground">{truncate(authors.join(', '), 60)}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">{paper.published_date?.slice(0, 10) || '-'}</td>
+                        <td className="text-right py-2 px-2">{task_ids.length}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
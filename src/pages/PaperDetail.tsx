@@ -0,0 +1,222 @@
+import { useParams, Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Calendar,
+  Users,
+  AlertTriangle,
+  Loader2,
+  FileText,
+} from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { getTaskResults } from '@/lib/api'
+import { authorPath, orgPath, paperPath } from '@/lib/routes'
+import { cn, formatPercentage } from '@/lib/utils'
+
+function confidenceColor(confidence: number): string {
+  if (confidence >= 0.8) return 'bg-green-500'
+  if (confidence >= 0.5) return 'bg-yellow-500'
+  return 'bg-red-500'
+}
+
+export default function PaperDetail() {
+  const { taskId, paperId } = useParams<{ taskId: string; paperId: string }>()
+
+  const { data: results, isLoading } = useQuery({
+    queryKey: ['taskResults', taskId],
+    queryFn: () => getTaskResults(taskId!),
+    enabled: !!taskId,
+  })
+
+  if (!taskId || !paperId) return null
+
+  const papers = results?.papers || []
+  const index = papers.findIndex(p => p.paper_id === paperId)
+  const paper = index >= 0 ? papers[index] : undefined
+  const prev = index > 0 ? papers[index - 1] : undefined
+  const next = index >= 0 && index < papers.length - 1 ? papers[index + 1] : undefined
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          <Link
+            to={`/task/${taskId}?tab=papers`}
+            className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors mb-3 sm:mb-4"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to Papers
+          </Link>
+          <h1 className="text-xl sm:text-2xl font-bold tracking-tight">
+            {paper?.title || 'Paper Details'}
+          </h1>
+          <div className="flex flex-wrap items-center gap-2 sm:gap-3">
+            <code className="text-xs sm:text-sm bg-muted px-2 py-1 rounded">{paperId}</code>
+            {paper && (
+              <Badge variant={paper.processing_status === 'completed' ? 'success' : 'secondary'}>
+                {paper.processing_status}
+              </Badge>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {prev ? (
+            <Link to={paperPath(taskId, prev.paper_id)}>
+              <Button variant="outline" size="icon" title="Previous paper">
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+            </Link>
+          ) : (
+            <Button variant="outline" size="icon" disabled>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+          )}
+          {next ? (
+            <Link to={paperPath(taskId, next.paper_id)}>
+              <Button variant="outline" size="icon" title="Next paper">
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </Link>
+          ) : (
+            <Button variant="outline" size="icon" disabled>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          )}
+          {paper?.pdf_url && (
+            <a href={paper.pdf_url} target="_blank" rel="noopener noreferrer">
+              <Button variant="outline" size="sm" className="gap-2">
+                <ExternalLink className="h-4 w-4" />
+                PDF
+              </Button>
+            </a>
+          )}
+        </div>
+      </div>
+
+      {isLoading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      {results && !paper && (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">Paper not found</h3>
+            <p className="text-muted-foreground text-sm">
+              This task has no paper with id {paperId}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {paper && (
+        <>
+          {/* Metadata & Abstract */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <div className="flex flex-wrap items-center gap-3 sm:gap-4 text-xs sm:text-sm text-muted-foreground">
+                {paper.published_date && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    {new Date(paper.published_date).toLocaleDateString()}
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Users className="h-4 w-4" />
+                  {paper.authors.length} authors
+                </span>
+                <div className="flex flex-wrap gap-1">
+                  {paper.categories.map(cat => (
+                    <Badge key={cat} variant="secondary" className="text-xs">{cat}</Badge>
+                  ))}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm leading-relaxed whitespace-pre-line">
+                {paper.abstract || <span className="text-muted-foreground">No abstract available</span>}
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Authors */}
+          <Card>
+            <CardHeader className="pb-2 sm:pb-4">
+              <CardTitle className="text-sm sm:text-base">Authors & Affiliations</CardTitle>
+              <CardDescription className="text-xs sm:text-sm">
+                Raw extracted affiliation next to the normalized organization
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full text-xs sm:text-sm min-w-[800px]">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2">Author</th>
+                    <th className="text-left py-2 px-2">Raw Affiliation</th>
+                    <th className="text-left py-2 px-2">Normalized</th>
+                    <th className="text-left py-2 px-2">Country</th>
+                    <th className="text-left py-2 px-2">Type</th>
+                    <th className="text-left py-2 px-2 w-36">Confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {paper.authors.map((author, i) => {
+                    const notNormalized = !!author.raw_affiliation && !author.normalized_affiliation
+                    return (
+                      <tr key={i} className="border-b align-top">
+                        <td className="py-2 px-2 font-medium">
+                          <Link to={authorPath(author.name)} className="hover:underline">{author.name}</Link>
+                        </td>
+                        <td className="py-2 px-2 text-muted-foreground">{author.raw_affiliation || '-'}</td>
+                        <td className="py-2 px-2">
+                          {author.normalized_affiliation ? (
+                            <Link to={orgPath(author.normalized_affiliation)} className="hover:underline">
+                              {author.normalized_affiliation}
+                            </Link>
+                          ) : (
+                            <span className={cn('flex items-center gap-1', notNormalized && 'text-yellow-500')}>
+                              {notNormalized && <AlertTriangle className="h-3 w-3" />}
+                              {notNormalized ? 'Not normalized' : '-'}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 px-2 whitespace-nowrap">
+                          {author.country || '-'}
+                          {author.country_code && (
+                            <span className="text-muted-foreground ml-1">({author.country_code})</span>
+                          )}
+                        </td>
+                        <td className="py-2 px-2">
+                          <Badge variant="outline" className="text-xs">{author.org_type}</Badge>
+                        </td>
+                        <td className="py-2 px-2">
+                          <div className="flex items-center gap-2">
+                            <div className="h-2 flex-1 rounded-full bg-secondary overflow-hidden">
+                              <div
+                                className={cn('h-full rounded-full', confidenceColor(author.confidence))}
+                                style={{ width: `${author.confidence * 100}%` }}
+                              />
+                            </div>
+                            <span className="w-12 text-right">{formatPercentage(author.confidence * 100)}</span>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
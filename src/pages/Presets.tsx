@@ -0,0 +1,288 @@
+import { Link } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { CalendarClock, Play, Pencil, Trash2, Eye, GitCompare, Bookmark } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { useToast } from '@/components/ui/use-toast'
+import { getTasks } from '@/lib/api'
+import { CADENCE_LABELS, describeWindow, nextRunAt, resolvePresetRequest } from '@/lib/presets'
+import { usePresetStore, useQueueStore, type AnalysisPreset, type PresetCadence } from '@/store'
+import type { TaskStatusResponse } from '@/types/api'
+
+const statusColors = {
+  pending: 'secondary',
+  running: 'default',
+  completed: 'success',
+  failed: 'destructive',
+  cancelled: 'warning',
+} as const
+
+// Number of most recent completed runs opened in the compare view
+const COMPARE_RUNS = 5
+
+function PresetCard({ preset, tasks }: { preset: AnalysisPreset; tasks: Map<string, TaskStatusResponse> }) {
+  const { toast } = useToast()
+  const { updatePreset, deletePreset } = usePresetStore()
+  const { items, enqueue } = useQueueStore()
+  const isQueued = items.some(item => item.preset_id === preset.id)
+
+  const runs = [...preset.runs].reverse()
+  const completedRuns = preset.runs
+    .filter(run => tasks.get(run.task_id)?.status === 'completed')
+    .slice(-COMPARE_RUNS)
+
+  const setCadence = (value: string) => {
+    if (value === 'off') {
+      updatePreset(preset.id, { schedule: preset.schedule && { ...preset.schedule, enabled: false } })
+      return
+    }
+    const cadence = value as PresetCadence
+    // Enabling (or changing) a schedule starts counting from now rather than running immediately
+    updatePreset(preset.id, {
+      schedule: {
+        ...preset.schedule,
+        cadence,
+        enabled: true,
+        next_run_at: nextRunAt(cadence, new Date()),
+      },
+    })
+  }
+
+  const setRollingDays = (value: string) => {
+    const days = parseInt(value)
+    updatePreset(preset.id, { rolling_days: days > 0 ? days : undefined })
+  }
+
+  const runNow = () => {
+    enqueue(resolvePresetRequest(preset), preset.id)
+    toast({
+      title: 'Added to Queue',
+      description: `${preset.name} starts automatically when the server is free`,
+    })
+  }
+
+  const handleDelete = () => {
+    if (confirm(`Delete preset "${preset.name}"? Its tasks are kept.`)) {
+      deletePreset(preset.id)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 sm:pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+          <div className="min-w-0">
+            <CardTitle className="flex items-center gap-2 text-sm sm:text-base">
+              {preset.name}
+              {preset.schedule?.enabled && (
+                <Badge variant="secondary" className="gap-1">
+                  <CalendarClock className="h-3 w-3" />
+                  {CADENCE_LABELS[preset.schedule.cadence]}
+                </Badge>
+              )}
+              {isQueued && <Badge variant="outline">Queued</Badge>}
+            </CardTitle>
+            <CardDescription className="text-xs sm:text-sm font-mono truncate">
+              {preset.request.query}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            <Button size="sm" className="gap-2" onClick={runNow} disabled={isQueued}>
+              <Play className="h-4 w-4" />
+              Run Now
+            </Button>
+            <Link to={`/analyze?preset=${preset.id}`}>
+              <Button variant="outline" size="sm" className="gap-2">
+                <Pencil className="h-4 w-4" />
+                <span className="hidden sm:inline">Open in Form</span>
+              </Button>
+            </Link>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-500 hover:text-red-500"
+              onClick={handleDelete}
+              title="Delete preset"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Settings */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-xs sm:text-sm">
+          <div>
+            <p className="text-muted-foreground text-xs">Data Source</p>
+            <p className="capitalize">{preset.request.data_source.replace('_', ' ')}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-xs">Max Papers</p>
+            <p>{preset.request.max_papers}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-xs">Date Window</p>
+            <p>{describeWindow(preset)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground text-xs">Next Run</p>
+            <p>
+              {preset.schedule?.enabled
+                ? new Date(preset.schedule.next_run_at).toLocaleString()
+                : 'Not scheduled'}
+            </p>
+          </div>
+        </div>
+
+        {/* Schedule */}
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-xs">Schedule</Label>
+            <Select
+              value={preset.schedule?.enabled ? preset.schedule.cadence : 'off'}
+              onValueChange={setCadence}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {Object.entries(CADENCE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`rolling-${preset.id}`} className="text-xs">
+              Rolling Window (days, empty for saved dates)
+            </Label>
+            <Input
+              id={`rolling-${preset.id}`}
+              type="number"
+              min={1}
+              value={preset.rolling_days ?? ''}
+              onChange={(e) => setRollingDays(e.target.value)}
+              placeholder="e.g. 7"
+            />
+          </div>
+        </div>
+
+        {/* Series */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs sm:text-sm font-medium">Series ({preset.runs.length} runs)</p>
+            {completedRuns.length >= 2 && (
+              <Link to={`/compare?tasks=${completedRuns.map(run => run.task_id).join(',')}`}>
+                <Button variant="ghost" size="sm" className="gap-2">
+                  <GitCompare className="h-4 w-4" />
+                  Compare Recent Runs
+                </Button>
+              </Link>
+            )}
+          </div>
+          {runs.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No runs yet</p>
+          ) : (
+            <div className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full text-xs sm:text-sm min-w-[480px]">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2">Started</th>
+                    <th className="text-left py-2 px-2">Window</th>
+                    <th className="text-left py-2 px-2">Status</th>
+                    <th className="text-right py-2 px-2">Papers</th>
+                    <th className="py-2 px-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {runs.map(run => {
+                    const task = tasks.get(run.task_id)
+                    return (
+                      <tr key={run.task_id} className="border-b">
+                        <td className="py-2 px-2 whitespace-nowrap">{new Date(run.started_at).toLocaleString()}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">
+                          {run.date_from || run.date_to ? `${run.date_from || '...'} → ${run.date_to || '...'}` : '-'}
+                        </td>
+                        <td className="py-2 px-2">
+                          {task ? (
+                            <Badge variant={statusColors[task.status]} className="text-xs">{task.status}</Badge>
+                          ) : (
+                            <span className="text-muted-foreground">unknown</span>
+                          )}
+                        </td>
+                        <td className="text-right py-2 px-2">{task ? task.total_papers : '-'}</td>
+                        <td className="text-right py-2 px-2">
+                          <Link to={`/task/${run.task_id}`}>
+                            <Button variant="ghost" size="icon" className="h-8 w-8">
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function Presets() {
+  const { presets } = usePresetStore()
+
+  const { data: tasks = [] } = useQuery({
+    queryKey: ['tasks'],
+    queryFn: () => getTasks(),
+    refetchInterval: 5000,
+    enabled: presets.length > 0,
+  })
+  const tasksById = new Map(tasks.map(task => [task.task_id, task]))
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Presets</h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Saved analyses and their recurring schedules. Schedules run while the app is open.
+        </p>
+      </div>
+
+      {presets.length === 0 ? (
+        <Card className="py-12">
+          <CardContent className="text-center">
+            <Bookmark className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="font-medium text-lg mb-2">No presets yet</h3>
+            <p className="text-muted-foreground text-sm mb-4">
+              Save a configuration from the analysis form to reuse or schedule it
+            </p>
+            <Link to="/analyze">
+              <Button>New Analysis</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4 sm:space-y-6">
+          {presets.map(preset => (
+            <PresetCard key={preset.id} preset={preset} tasks={tasksById} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
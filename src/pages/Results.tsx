@@ -8,7 +8,8 @@ import {
   XCircle, 
   ArrowRight,
   Trash2,
-  Filter
+  Filter,
+  Ban
 } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -22,6 +23,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { getTasks, deleteTask } from '@/lib/api'
+import { useCancelTask } from '@/hooks/useCancelTask'
 import { formatDuration } from '@/lib/utils'
 import { useState } from 'react'
 import type { TaskStatus } from '@/types/api'
@@ -41,6 +43,7 @@ const item = {
 
 export default function Results() {
   const [statusFilter, setStatusFilter] = useState<string>('all')
+  const { cancel, isCancelling } = useCancelTask()
   
   const { data: tasks = [], isLoading, refetch } = useQuery({
     queryKey: ['tasks', statusFilter],
@@ -92,6 +95,7 @@ export default function Results() {
               <SelectItem value="running">Running</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
           </Select>
           <Link to="/analyze">
@@ -131,6 +135,7 @@ export default function Results() {
         >
           {tasks.map(task => {
             const StatusIcon = statusIcons[task.status]
+            const cancelling = task.status === 'running' && isCancelling(task.task_id)
             
             return (
               <motion.div key={task.task_id} variants={item}>
@@ -154,8 +159,8 @@ export default function Results() {
                         <div className="space-y-1 min-w-0 flex-1">
                           <div className="flex flex-wrap items-center gap-2">
                             <h3 className="font-semibold font-mono text-sm sm:text-base truncate max-w-[200px] sm:max-w-none">{task.query}</h3>
-                            <Badge variant={statusColors[task.status]} className="text-xs flex-shrink-0">
-                              {task.status}
+                            <Badge variant={cancelling ? 'warning' : statusColors[task.status]} className="text-xs flex-shrink-0">
+                              {cancelling ? 'cancelling' : task.status}
                             </Badge>
                           </div>
                           <div className="flex flex-wrap items-center gap-2 sm:gap-4 text-xs sm:text-sm text-muted-foreground">
@@ -193,6 +198,18 @@ export default function Results() {
                       </div>
                       
                       <div className="flex items-center gap-2 self-end sm:self-start">
+                        {task.status === 'running' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => cancel(task.task_id)}
+                            disabled={cancelling}
+                            className="text-muted-foreground hover:text-red-500"
+                            title="Cancel task"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="icon"
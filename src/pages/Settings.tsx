@@ -0,0 +1,362 @@
+import { useState } from 'react'
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { Server, Save, RotateCcw, Plug, Loader2, CheckCircle2, XCircle, DollarSign, Plus, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { useToast } from '@/components/ui/use-toast'
+import { checkHealth } from '@/lib/api'
+import { costPerPaper } from '@/lib/estimate'
+import { usePricingStore, type ModelPrice } from '@/store'
+import {
+  getConfiguredEndpoints,
+  getEndpointOverrides,
+  resolveEndpoints,
+  setEndpointOverrides,
+  type EndpointSource,
+} from '@/lib/config'
+
+const SOURCE_LABELS: Record<EndpointSource, string> = {
+  override: 'Browser override',
+  runtime: 'Runtime (env-config.js)',
+  build: 'Build-time (.env)',
+  derived: 'Derived from API URL',
+  'same-origin': 'Same origin (proxy)',
+}
+
+function PricingCard() {
+  const pricing = usePricingStore()
+  const { models, selected_model, setPricing, resetPricing } = pricing
+
+  const updateModel = (index: number, changes: Partial<ModelPrice>) => {
+    const next = models.map((m, i) => i === index ? { ...m, ...changes } : m)
+    setPricing({
+      models: next,
+      // Keep the selection pointing at a renamed model
+      selected_model: changes.model !== undefined && models[index].model === selected_model ? changes.model : selected_model,
+    })
+  }
+
+  const removeModel = (index: number) => {
+    const next = models.filter((_, i) => i !== index)
+    setPricing({
+      models: next,
+      selected_model: models[index].model === selected_model ? next[0]?.model || '' : selected_model,
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          Model Pricing
+        </CardTitle>
+        <CardDescription>
+          Used for cost estimates on the analysis page. Prices are USD per million tokens.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto -mx-4 sm:mx-0">
+          <table className="w-full text-xs sm:text-sm min-w-[500px]">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 px-2">Used</th>
+                <th className="text-left py-2 px-2">Model</th>
+                <th className="text-left py-2 px-2">Input $/1M</th>
+                <th className="text-left py-2 px-2">Output $/1M</th>
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map((model, i) => (
+                <tr key={i} className="border-b">
+                  <td className="py-2 px-2">
+                    <input
+                      type="radio"
+                      name="selected_model"
+                      className="h-4 w-4 accent-primary"
+                      checked={model.model === selected_model}
+                      onChange={() => setPricing({ selected_model: model.model })}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      value={model.model}
+                      onChange={(e) => updateModel(i, { model: e.target.value })}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={model.input}
+                      onChange={(e) => updateModel(i, { input: parseFloat(e.target.value) || 0 })}
+                      className="h-8 w-24 text-xs"
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={model.output}
+                      onChange={(e) => updateModel(i, { output: parseFloat(e.target.value) || 0 })}
+                      className="h-8 w-24 text-xs"
+                    />
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => removeModel(i)}
+                      disabled={models.length === 1}
+                      title="Remove model"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="input_tokens">Input tokens per paper</Label>
+            <Input
+              id="input_tokens"
+              type="number"
+              min={0}
+              value={pricing.input_tokens_per_paper}
+              onChange={(e) => setPricing({ input_tokens_per_paper: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="output_tokens">Output tokens per paper</Label>
+            <Input
+              id="output_tokens"
+              type="number"
+              min={0}
+              value={pricing.output_tokens_per_paper}
+              onChange={(e) => setPricing({ output_tokens_per_paper: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            ${costPerPaper(pricing).toFixed(5)} per paper on {selected_model || 'no model'}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => setPricing({ models: [...models, { model: 'new-model', input: 0, output: 0 }] })}
+            >
+              <Plus className="h-4 w-4" />
+              Add Model
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={resetPricing}>
+              <RotateCcw className="h-4 w-4" />
+              Reset
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function Settings() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [overrides, setOverrides] = useState(getEndpointOverrides)
+
+  const resolved = resolveEndpoints()
+  const configured = getConfiguredEndpoints()
+
+  const healthMutation = useMutation({
+    mutationFn: checkHealth,
+  })
+
+  const applyOverrides = (next: typeof overrides) => {
+    setEndpointOverrides(next)
+    setOverrides(getEndpointOverrides())
+    healthMutation.reset()
+    queryClient.invalidateQueries()
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    applyOverrides(overrides)
+    toast({
+      title: 'Settings Saved',
+      description: 'Endpoint overrides apply to this browser only',
+    })
+  }
+
+  const handleReset = () => {
+    applyOverrides({})
+    toast({
+      title: 'Overrides Cleared',
+      description: 'Using the deployment endpoints again',
+    })
+  }
+
+  const layers = [
+    { key: 'override', ...configured.override },
+    { key: 'runtime', ...configured.runtime },
+    { key: 'build', ...configured.build },
+  ] as const
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6 sm:space-y-8">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Settings</h1>
+        <p className="text-muted-foreground text-sm sm:text-base">
+          Backend endpoints and cost estimates used by this browser
+        </p>
+      </div>
+
+      {/* Resolved Endpoints */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Server className="h-5 w-5" />
+            Active Endpoints
+          </CardTitle>
+          <CardDescription>
+            Resolved from browser override, then runtime config, then build-time env, then same origin
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1 min-w-0">
+              <p className="text-xs sm:text-sm text-muted-foreground">API</p>
+              <p className="font-mono text-sm truncate">{resolved.apiUrl || window.location.origin}</p>
+              <Badge variant={resolved.apiSource === 'override' ? 'warning' : 'secondary'} className="text-xs">
+                {SOURCE_LABELS[resolved.apiSource]}
+              </Badge>
+            </div>
+            <div className="space-y-1 min-w-0">
+              <p className="text-xs sm:text-sm text-muted-foreground">WebSocket</p>
+              <p className="font-mono text-sm truncate">{resolved.wsUrl}</p>
+              <Badge variant={resolved.wsSource === 'override' ? 'warning' : 'secondary'} className="text-xs">
+                {SOURCE_LABELS[resolved.wsSource]}
+              </Badge>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto -mx-4 sm:mx-0">
+            <table className="w-full text-xs sm:text-sm min-w-[500px]">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-2 px-2">Source</th>
+                  <th className="text-left py-2 px-2">API URL</th>
+                  <th className="text-left py-2 px-2">WebSocket URL</th>
+                </tr>
+              </thead>
+              <tbody>
+                {layers.map(layer => (
+                  <tr key={layer.key} className="border-b">
+                    <td className="py-2 px-2">{SOURCE_LABELS[layer.key]}</td>
+                    <td className="py-2 px-2 font-mono">{layer.apiUrl || '-'}</td>
+                    <td className="py-2 px-2 font-mono">{layer.wsUrl || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => healthMutation.mutate()}
+              disabled={healthMutation.isPending}
+            >
+              {healthMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plug className="h-4 w-4" />
+              )}
+              Test Connection
+            </Button>
+            {healthMutation.isSuccess && (
+              <span className="flex items-center gap-1 text-sm text-green-500">
+                <CheckCircle2 className="h-4 w-4" />
+                {healthMutation.data.status} • v{healthMutation.data.version}
+              </span>
+            )}
+            {healthMutation.isError && (
+              <span className="flex items-center gap-1 text-sm text-red-500">
+                <XCircle className="h-4 w-4" />
+                {healthMutation.error.message}
+              </span>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Overrides */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Browser Override</CardTitle>
+          <CardDescription>
+            Point this browser at another backend, e.g. a local one for testing. Leave empty to use the deployment config.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api_url">API URL</Label>
+              <Input
+                id="api_url"
+                value={overrides.apiUrl || ''}
+                onChange={(e) => setOverrides(prev => ({ ...prev, apiUrl: e.target.value }))}
+                placeholder="http://localhost:8000"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ws_url">WebSocket URL</Label>
+              <Input
+                id="ws_url"
+                value={overrides.wsUrl || ''}
+                onChange={(e) => setOverrides(prev => ({ ...prev, wsUrl: e.target.value }))}
+                placeholder="ws://localhost:8000"
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Defaults to the API host when only the API URL is set
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" className="gap-2">
+                <Save className="h-4 w-4" />
+                Save
+              </Button>
+              <Button type="button" variant="outline" className="gap-2" onClick={handleReset}>
+                <RotateCcw className="h-4 w-4" />
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Pricing */}
+      <PricingCard />
+    </div>
+  )
+}
@@ -1,5 +1,5 @@
-import { useEffect, useCallback, useState } from 'react'
-import { useParams, Link } from 'react-router-dom'
+import { useCallback } from 'react'
+import { useParams, useSearchParams, Link } from 'react-router-dom'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { motion } from 'framer-motion'
 import {
@@ -17,6 +17,8 @@ import {
   BarChart3,
   PieChart as PieChartIcon,
   Loader2,
+  Ban,
+  RotateCcw,
 } from 'lucide-react'
 import {
   BarChart,
@@ -36,141 +38,79 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
-import { getTaskStatus, getTaskResults, getTaskAnalytics, getDownloadUrl, evaluateTask, createWebSocket } from '@/lib/api'
-import { formatDuration, formatNumber, formatPercentage, truncate } from '@/lib/utils'
-import { useTaskStore } from '@/store'
-import type { TaskProgress, WSMessage } from '@/types/api'
-
-const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16']
+import EvaluationPanel from '@/components/task/EvaluationPanel'
+import PapersTable from '@/components/task/PapersTable'
+import TimelinePanel from '@/components/task/TimelinePanel'
+import CountryMap from '@/components/task/CountryMap'
+import CollaborationNetwork from '@/components/task/CollaborationNetwork'
+import ExportMenu from '@/components/task/ExportMenu'
+import OrgTypeMatrix from '@/components/task/OrgTypeMatrix'
+import StageTimeline from '@/components/task/StageTimeline'
+import EventLog from '@/components/task/EventLog'
+import ErrorInspector from '@/components/task/ErrorInspector'
+import { useCancelTask } from '@/hooks/useCancelTask'
+import { useTaskSubscription } from '@/hooks/useTaskSubscription'
+import { getTaskStatus, getTaskResults, getTaskAnalytics, evaluateTask } from '@/lib/api'
+import { RERUN_LABELS, canRetryFailed, failedPaperIds, rerunPath } from '@/lib/rerun'
+import { orgPath } from '@/lib/routes'
+import { CHART_COLORS, formatDuration, formatNumber, formatPercentage, truncate } from '@/lib/utils'
+import { useLineageStore, useStageHistoryStore, type TaskConnectionState } from '@/store'
+
+const CONNECTION_LABELS: Record<TaskConnectionState, string> = {
+  connecting: 'Connecting...',
+  connected: 'Live',
+  reconnecting: 'Reconnecting...',
+  polling: 'Polling',
+}
 
 export default function TaskDetail() {
   const { taskId } = useParams<{ taskId: string }>()
   const queryClient = useQueryClient()
-  const { taskProgress, setTaskProgress, setWsConnected } = useTaskStore()
-  const [activeTab, setActiveTab] = useState('overview')
+  const [searchParams, setSearchParams] = useSearchParams()
+  const activeTab = searchParams.get('tab') || 'overview'
+  const setActiveTab = (tab: string) => {
+    // Filters in the URL belong to the papers tab; drop them when switching away
+    setSearchParams(tab === 'overview' ? {} : { tab }, { replace: true })
+  }
+  const { cancel, isCancelling } = useCancelTask()
+  const cancelling = !!taskId && isCancelling(taskId)
+  const stageTimeline = useStageHistoryStore(state => taskId ? state.timelines[taskId] : undefined)
+  // Re-run links, both ways
+  const parents = useLineageStore(state => state.parents)
 
   // Fetch task status
   const { data: status, isLoading: statusLoading } = useQuery({
     queryKey: ['taskStatus', taskId],
     queryFn: () => getTaskStatus(taskId!),
     enabled: !!taskId,
-    refetchInterval: (query) => {
-      // Only poll every 5 seconds as backup - WebSocket handles real-time
-      return query.state.data?.status === 'running' ? 5000 : false
-    },
   })
 
-  // Fetch results when completed
+  // Fetch results when completed (cancelled tasks may have partial results)
   const { data: results, isLoading: resultsLoading } = useQuery({
     queryKey: ['taskResults', taskId],
     queryFn: () => getTaskResults(taskId!),
-    enabled: !!taskId && status?.status === 'completed',
+    enabled: !!taskId && (status?.status === 'completed' || status?.status === 'cancelled'),
+    retry: status?.status === 'completed',
   })
 
   // Fetch analytics when completed
   const { data: analytics, isLoading: analyticsLoading } = useQuery({
     queryKey: ['taskAnalytics', taskId],
     queryFn: () => getTaskAnalytics(taskId!),
-    enabled: !!taskId && status?.status === 'completed',
+    enabled: !!taskId && (status?.status === 'completed' || status?.status === 'cancelled'),
+    retry: status?.status === 'completed',
   })
 
   // Evaluation mutation
   const evaluationMutation = useMutation({
-    mutationFn: () => evaluateTask(taskId!),
+    mutationFn: (goldStandardPath?: string) => evaluateTask(taskId!, goldStandardPath),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['taskResults', taskId] })
     },
   })
 
-  // WebSocket connection for real-time updates
-  useEffect(() => {
-    if (!taskId || status?.status !== 'running') {
-      setWsConnected(false)
-      return
-    }
-
-    let ws: WebSocket | null = null
-    let reconnectTimeout: ReturnType<typeof setTimeout> | null = null
-    let isMounted = true
-
-    const connect = () => {
-      if (!isMounted) return
-      
-      ws = createWebSocket(taskId)
-      
-      ws.onopen = () => {
-        console.log('[WS TaskDetail] Connected to task', taskId)
-        setWsConnected(true)
-      }
-
-      ws.onmessage = (event) => {
-        // Ignore ping/pong text messages
-        if (event.data === 'ping' || event.data === 'pong') {
-          if (event.data === 'ping' && ws) ws.send('pong')
-          return
-        }
-        
-        try {
-          const message: WSMessage = JSON.parse(event.data)
-          
-          if (message.type === 'progress') {
-            // Always update from progress messages - they are real-time
-            setTaskProgress(message.data as TaskProgress)
-          } else if (message.type === 'status') {
-            // Initial status message - only use if we don't have progress or if it's more recent
-            const statusData = message.data as any
-            const currentProgress = useTaskStore.getState().taskProgress
-            if (!currentProgress || statusData.processed_papers > currentProgress.processed) {
-              setTaskProgress({
-                task_id: statusData.task_id,
-                stage: statusData.stage,
-                progress: statusData.progress,
-                message: `Processing ${statusData.current_paper_title || '...'}`,
-                current_paper: statusData.current_paper_title,
-                processed: statusData.processed_papers,
-                total: statusData.total_papers,
-                timestamp: statusData.updated_at || new Date().toISOString(),
-              })
-            }
-          } else if (message.type === 'completed') {
-            queryClient.invalidateQueries({ queryKey: ['taskStatus', taskId] })
-            queryClient.invalidateQueries({ queryKey: ['taskResults', taskId] })
-            queryClient.invalidateQueries({ queryKey: ['taskAnalytics', taskId] })
-            queryClient.invalidateQueries({ queryKey: ['activeTask'] })
-          }
-        } catch (e) {
-          // Ignore parse errors for non-JSON messages
-        }
-      }
-
-      ws.onerror = () => {
-        console.log('[WS TaskDetail] Error, will reconnect...')
-      }
-
-      ws.onclose = () => {
-        console.log('[WS TaskDetail] Closed')
-        setWsConnected(false)
-        // Reconnect after 2 seconds if still mounted and task is running
-        if (isMounted && status?.status === 'running') {
-          reconnectTimeout = setTimeout(() => {
-            console.log('[WS TaskDetail] Reconnecting...')
-            connect()
-          }, 2000)
-        }
-      }
-    }
-
-    connect()
-
-    return () => {
-      isMounted = false
-      if (reconnectTimeout) clearTimeout(reconnectTimeout)
-      if (ws) {
-        ws.onclose = null // Prevent reconnection on cleanup
-        ws.close()
-      }
-    }
-  }, [taskId, status?.status, setTaskProgress, setWsConnected, queryClient])
+  // Real-time updates while running; falls back to polling when the socket is down
+  const { connection } = useTaskSubscription(taskId, status?.status === 'running')
 
   if (!taskId) return null
 
@@ -178,6 +118,11 @@ export default function TaskDetail() {
   const isCompleted = status?.status === 'completed'
   const isFailed = status?.status === 'failed'
   const isRunning = status?.status === 'running'
+  const isCancelled = status?.status === 'cancelled'
+
+  const lineage = parents[taskId]
+  const children = Object.entries(parents).filter(([, l]) => l.parent_id === taskId)
+  const retryIds = failedPaperIds(results?.papers)
 
   // Chart data
   const topOrgsData = analytics?.top_organizations.slice(0, 10).map(org => ({
@@ -214,20 +159,89 @@ export default function TaskDetail() {
             <Badge variant={
               isCompleted ? 'success' :
               isFailed ? 'destructive' :
+              isCancelled || cancelling ? 'warning' :
               isRunning ? 'default' : 'secondary'
             }>
-              {status?.status || 'Loading...'}
+              {cancelling && isRunning ? 'cancelling' : status?.status || 'Loading...'}
             </Badge>
           </div>
+          {(lineage || children.length > 0) && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 pt-1 text-xs text-muted-foreground">
+              {lineage && (
+                <span>
+                  {RERUN_LABELS[lineage.mode]} of{' '}
+                  <Link to={`/task/${lineage.parent_id}`} className="font-mono hover:underline">
+                    {lineage.parent_id.slice(0, 8)}
+                  </Link>
+                </span>
+              )}
+              {children.length > 0 && (
+                <span>
+                  Re-run as{' '}
+                  {children.map(([childId, l], i) => (
+                    <span key={childId}>
+                      {i > 0 && ', '}
+                      <Link to={`/task/${childId}`} className="font-mono hover:underline" title={RERUN_LABELS[l.mode]}>
+                        {childId.slice(0, 8)}
+                      </Link>
+                    </span>
+                  ))}
+                </span>
+              )}
+            </div>
+          )}
         </div>
-        <div className="flex items-center gap-2">
-          {isCompleted && results?.output_files && Object.keys(results.output_files).length > 0 && (
-            <a href={getDownloadUrl(taskId, Object.keys(results.output_files)[0])} download>
-              <Button variant="outline" className="gap-2" size="sm">
-                <Download className="h-4 w-4" />
-                <span className="hidden sm:inline">Download</span> CSV
+        <div className="flex flex-wrap items-center gap-2">
+          {isRunning && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-red-500 hover:text-red-500"
+              onClick={() => cancel(taskId)}
+              disabled={cancelling}
+            >
+              {cancelling ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+              {cancelling ? 'Cancelling...' : 'Cancel'}
+            </Button>
+          )}
+          {status && !isRunning && status.status !== 'pending' && (
+            <Button variant="outline" size="sm" className="gap-2" asChild>
+              <Link to={rerunPath(status)}>
+                <RotateCcw className="h-4 w-4" />
+                Re-run
+              </Link>
+            </Button>
+          )}
+          {status && status.failed_papers > 0 && !isRunning && (
+            canRetryFailed(status, retryIds) ? (
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <Link to={rerunPath(status, 'retry_failed', retryIds)}>
+                  <RefreshCw className="h-4 w-4" />
+                  Retry Failed ({retryIds.length})
+                </Link>
               </Button>
-            </a>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                disabled
+                title={retryIds.length === 0
+                  ? 'The failed papers are not listed in the saved results'
+                  : 'This data source cannot search by paper id'}
+              >
+                <RefreshCw className="h-4 w-4" />
+                Retry Failed
+              </Button>
+            )
+          )}
+          {(isCompleted || isCancelled) && results && (
+            <ExportMenu
+              taskId={taskId}
+              outputFiles={results.output_files}
+              papers={results.papers}
+              analytics={analytics}
+            />
           )}
         </div>
       </div>
@@ -242,7 +256,12 @@ export default function TaskDetail() {
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Loader2 className="h-5 w-5 animate-spin text-blue-500" />
-                Processing...
+                {cancelling ? 'Cancelling...' : 'Processing...'}
+                {connection && (
+                  <Badge variant={connection === 'connected' ? 'success' : 'secondary'} className="ml-auto text-xs font-normal">
+                    {CONNECTION_LABELS[connection]}
+                  </Badge>
+                )}
               </CardTitle>
               <CardDescription>
                 {status.current_paper_title || `Stage: ${status.stage}`}
@@ -267,6 +286,14 @@ export default function TaskDetail() {
         </motion.div>
       )}
 
+      {/* Pipeline Timeline (completed tasks show it in the overview tab) */}
+      {status && !isCompleted && (
+        <StageTimeline timeline={stageTimeline} live={isRunning} />
+      )}
+
+      {/* Event Log (completed tasks show it in the log tab) */}
+      {taskId && status && !isCompleted && <EventLog taskId={taskId} />}
+
       {/* Error Section (when failed) */}
       {isFailed && status?.errors.length > 0 && (
         <Card className="border-red-500/50 bg-red-500/5">
@@ -284,14 +311,75 @@ export default function TaskDetail() {
         </Card>
       )}
 
-      {/* Main Content (when completed) */}
-      {isCompleted && analytics && (
+      {/* Cancelled Section */}
+      {isCancelled && status && (
+        <Card className="border-yellow-500/50 bg-yellow-500/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-yellow-600 dark:text-yellow-500">
+              <Ban className="h-5 w-5" />
+              Task Cancelled
+            </CardTitle>
+            <CardDescription>
+              Stopped during {status.stage}
+              {status.completed_at && ` at ${new Date(status.completed_at).toLocaleString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-3 sm:gap-4 grid-cols-2 sm:grid-cols-4 text-sm">
+              <div>
+                <p className="text-xs sm:text-sm text-muted-foreground">Processed</p>
+                <p className="font-medium">{status.processed_papers} / {status.total_papers || status.max_papers} papers</p>
+              </div>
+              <div>
+                <p className="text-xs sm:text-sm text-muted-foreground">Failed</p>
+                <p className="font-medium">{status.failed_papers}</p>
+              </div>
+              <div>
+                <p className="text-xs sm:text-sm text-muted-foreground">Progress</p>
+                <p className="font-medium">{status.progress.toFixed(0)}%</p>
+              </div>
+              <div>
+                <p className="text-xs sm:text-sm text-muted-foreground">Ran For</p>
+                <p className="font-medium">{formatDuration(status.elapsed_seconds)}</p>
+              </div>
+            </div>
+            <Progress value={status.progress} className="h-2" />
+            {status.current_paper_title && (
+              <p className="text-xs text-muted-foreground truncate">
+                Last paper: {status.current_paper_title}
+              </p>
+            )}
+            {!analytics && (
+              <p className="text-xs text-muted-foreground">
+                No partial results were saved for this task.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Errors and partial failures */}
+      {taskId && status && (status.errors.length > 0 || status.failed_papers > 0) && (
+        <ErrorInspector
+          taskId={taskId}
+          errors={status.errors}
+          failedCount={status.failed_papers}
+          papers={results?.papers}
+        />
+      )}
+
+      {/* Main Content (when completed, or partial results of a cancelled task) */}
+      {(isCompleted || isCancelled) && analytics && (
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-4 h-auto">
+          <TabsList className="grid w-full grid-cols-4 sm:grid-cols-8 h-auto">
             <TabsTrigger value="overview" className="text-xs sm:text-sm py-2">Overview</TabsTrigger>
             <TabsTrigger value="organizations" className="text-xs sm:text-sm py-2">Organizations</TabsTrigger>
             <TabsTrigger value="geography" className="text-xs sm:text-sm py-2">Geography</TabsTrigger>
+            <TabsTrigger value="network" className="text-xs sm:text-sm py-2">Network</TabsTrigger>
+            <TabsTrigger value="timeline" className="text-xs sm:text-sm py-2">Timeline</TabsTrigger>
             <TabsTrigger value="papers" className="text-xs sm:text-sm py-2">Papers</TabsTrigger>
+            <TabsTrigger value="evaluation" className="text-xs sm:text-sm py-2">Evaluation</TabsTrigger>
+            <TabsTrigger value="log" className="text-xs sm:text-sm py-2">Log</TabsTrigger>
           </TabsList>
 
           {/* Overview Tab */}
@@ -386,7 +474,7 @@ export default function TaskDetail() {
                         dataKey="value"
                       >
                         {orgTypeData.map((_, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
                         ))}
                       </Pie>
                       <Tooltip />
@@ -396,6 +484,9 @@ export default function TaskDetail() {
               </Card>
             </div>
 
+            {/* Pipeline Timeline */}
+            {isCompleted && <StageTimeline timeline={stageTimeline} />}
+
             {/* Processing Info */}
             <Card>
               <CardHeader className="pb-2 sm:pb-4">
@@ -429,7 +520,7 @@ export default function TaskDetail() {
           </TabsContent>
 
           {/* Organizations Tab */}
-          <TabsContent value="organizations">
+          <TabsContent value="organizations" className="space-y-4 sm:space-y-6">
             <Card>
               <CardHeader className="pb-2 sm:pb-4">
                 <CardTitle className="text-sm sm:text-base">Top 20 Organizations</CardTitle>
@@ -462,7 +553,9 @@ export default function TaskDetail() {
                     <tbody>
                       {analytics.top_organizations.map((org, i) => (
                         <tr key={i} className="border-b">
-                          <td className="py-2 px-2 max-w-[150px] truncate">{org.name}</td>
+                          <td className="py-2 px-2 max-w-[150px] truncate">
+                            <Link to={orgPath(org.name)} className="hover:underline">{org.name}</Link>
+                          </td>
                           <td className="py-2 px-2">{org.country || '-'}</td>
                           <td className="py-2 px-2">
                             <Badge variant="outline" className="text-xs">{org.org_type}</Badge>
@@ -476,10 +569,15 @@ export default function TaskDetail() {
                 </div>
               </CardContent>
             </Card>
+            <OrgTypeMatrix taskId={taskId} papers={results?.papers || []} />
           </TabsContent>
 
           {/* Geography Tab */}
-          <TabsContent value="geography">
+          <TabsContent value="geography" className="space-y-4 sm:space-y-6">
+            <CountryMap
+              countries={analytics.country_distribution}
+              onSelectCountry={(country) => setSearchParams({ tab: 'papers', country }, { replace: true })}
+            />
             <div className="grid gap-4 sm:gap-6 lg:grid-cols-2">
               <Card>
                 <CardHeader className="pb-2 sm:pb-4">
@@ -499,7 +597,7 @@ export default function TaskDetail() {
                         dataKey="value"
                       >
                         {countryData.map((_, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          <Cell key={`cell-${index}`} fill={CHART_COLORS[index % CHART_COLORS.length]} />
                         ))}
                       </Pie>
                       <Tooltip />
@@ -539,58 +637,35 @@ export default function TaskDetail() {
             </div>
           </TabsContent>
 
+          {/* Network Tab */}
+          <TabsContent value="network">
+            <CollaborationNetwork papers={results?.papers || []} />
+          </TabsContent>
+
+          {/* Timeline Tab */}
+          <TabsContent value="timeline">
+            <TimelinePanel papersByDate={analytics.papers_by_date} papers={results?.papers || []} />
+          </TabsContent>
+
           {/* Papers Tab */}
           <TabsContent value="papers">
-            <Card>
-              <CardHeader className="pb-2 sm:pb-4">
-                <CardTitle className="text-sm sm:text-base">Processed Papers</CardTitle>
-                <CardDescription className="text-xs sm:text-sm">{results?.papers.length || 0} papers</CardDescription>
-              </CardHeader>
-              <CardContent className="max-h-[500px] sm:max-h-[600px] overflow-auto">
-                <div className="space-y-3 sm:space-y-4">
-                  {results?.papers.map((paper, i) => (
-                    <div key={i} className="p-3 sm:p-4 border rounded-lg">
-                      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 mb-2">
-                        <h3 className="font-medium text-sm sm:text-base line-clamp-2">{paper.title}</h3>
-                        <Badge variant="outline" className="text-xs flex-shrink-0 self-start">{paper.paper_id}</Badge>
-                      </div>
-                      <div className="flex flex-wrap gap-1 mb-2">
-                        {paper.categories.slice(0, 3).map((cat, j) => (
-                          <Badge key={j} variant="secondary" className="text-xs">
-                            {cat}
-                          </Badge>
-                        ))}
-                        {paper.categories.length > 3 && (
-                          <Badge variant="secondary" className="text-xs">
-                            +{paper.categories.length - 3}
-                          </Badge>
-                        )}
-                      </div>
-                      <div className="text-xs sm:text-sm text-muted-foreground">
-                        <p className="mb-2">{paper.authors.length} authors</p>
-                        <div className="flex flex-wrap gap-1 sm:gap-2">
-                          {paper.authors.slice(0, 4).map((author, j) => (
-                            <span key={j} className="inline-flex items-center gap-1 bg-muted px-2 py-1 rounded text-xs">
-                              {author.name}
-                              {author.normalized_affiliation && (
-                                <span className="text-muted-foreground hidden sm:inline">
-                                  ({truncate(author.normalized_affiliation, 15)})
-                                </span>
-                              )}
-                            </span>
-                          ))}
-                          {paper.authors.length > 4 && (
-                            <span className="text-xs text-muted-foreground self-center">
-                              +{paper.authors.length - 4} more
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+            <PapersTable taskId={taskId} papers={results?.papers || []} />
+          </TabsContent>
+
+          {/* Evaluation Tab */}
+          <TabsContent value="evaluation">
+            <EvaluationPanel
+              taskId={taskId}
+              evaluation={evaluationMutation.data ?? results?.evaluation}
+              isRunning={evaluationMutation.isPending}
+              error={evaluationMutation.error}
+              onRun={(goldStandardPath) => evaluationMutation.mutate(goldStandardPath)}
+            />
+          </TabsContent>
+
+          {/* Log Tab */}
+          <TabsContent value="log">
+            <EventLog taskId={taskId} />
           </TabsContent>
         </Tabs>
       )}
@@ -1,5 +1,26 @@
 import { create } from 'zustand'
-import type { TaskStatusResponse, TaskProgress, AnalyticsData } from '@/types/api'
+import type { TaskStatus, TaskStatusResponse, TaskProgress, AnalyticsData, AnalysisRequest, ProcessingStage } from '@/types/api'
+
+function loadFromStorage<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') return fallback
+  try {
+    const raw = localStorage.getItem(key)
+    return raw ? JSON.parse(raw) as T : fallback
+  } catch {
+    return fallback
+  }
+}
+
+function saveToStorage(key: string, value: unknown) {
+  localStorage.setItem(key, JSON.stringify(value))
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// How live updates for a subscribed task are currently arriving
+export type TaskConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'polling'
 
 interface TaskState {
   // Active task tracking
@@ -10,6 +31,10 @@ interface TaskState {
   
   // WebSocket
   wsConnected: boolean
+  connections: Record<string, TaskConnectionState>
+  
+  // Tasks with a cancel request awaiting server confirmation
+  cancellingTaskIds: string[]
   
   // Actions
   setActiveTask: (taskId: string | null) => void
@@ -17,6 +42,8 @@ interface TaskState {
   setTaskProgress: (progress: TaskProgress | null) => void
   setAnalytics: (analytics: AnalyticsData | null) => void
   setWsConnected: (connected: boolean) => void
+  setConnectionState: (taskId: string, state: TaskConnectionState | null) => void
+  setCancelling: (taskId: string, cancelling: boolean) => void
   reset: () => void
 }
 
@@ -26,18 +53,35 @@ export const useTaskStore = create<TaskState>((set) => ({
   taskProgress: null,
   analytics: null,
   wsConnected: false,
+  connections: {},
+  cancellingTaskIds: [],
   
   setActiveTask: (taskId) => set({ activeTaskId: taskId }),
   setTaskStatus: (status) => set({ taskStatus: status }),
   setTaskProgress: (progress) => set({ taskProgress: progress }),
   setAnalytics: (analytics) => set({ analytics }),
   setWsConnected: (connected) => set({ wsConnected: connected }),
+  setConnectionState: (taskId, connection) => set((state) => {
+    const { [taskId]: _previous, ...connections } = state.connections
+    if (connection) connections[taskId] = connection
+    return {
+      connections,
+      wsConnected: Object.values(connections).includes('connected'),
+    }
+  }),
+  setCancelling: (taskId, cancelling) => set((state) => ({
+    cancellingTaskIds: cancelling
+      ? Array.from(new Set([...state.cancellingTaskIds, taskId]))
+      : state.cancellingTaskIds.filter(id => id !== taskId),
+  })),
   reset: () => set({
     activeTaskId: null,
     taskStatus: null,
     taskProgress: null,
     analytics: null,
     wsConnected: false,
+    connections: {},
+    cancellingTaskIds: [],
   }),
 }))
 
@@ -62,3 +106,499 @@ export const useThemeStore = create<ThemeState>((set) => ({
     set({ theme })
   },
 }))
+
+// Gold standard annotation drafts
+export interface AnnotatedAuthor {
+  // Position in the extracted paper's authors; absent for authors the annotator added
+  source_index?: number
+  name: string
+  normalized_affiliation: string
+  country_code: string
+  org_type: string
+  hallucinated: boolean
+}
+
+export interface AnnotatedPaper {
+  paper_id: string
+  title: string
+  authors: AnnotatedAuthor[]
+  reviewed: boolean
+}
+
+export interface AnnotationDraft {
+  task_id: string
+  papers: Record<string, AnnotatedPaper>
+  updated_at: string
+}
+
+interface AnnotationState {
+  drafts: Record<string, AnnotationDraft>
+  savePaper: (taskId: string, paper: AnnotatedPaper) => void
+  clearDraft: (taskId: string) => void
+}
+
+const ANNOTATIONS_KEY = 'annotationDrafts'
+
+export const useAnnotationStore = create<AnnotationState>((set) => ({
+  drafts: loadFromStorage<Record<string, AnnotationDraft>>(ANNOTATIONS_KEY, {}),
+  savePaper: (taskId, paper) => set((state) => {
+    const draft = state.drafts[taskId] || { task_id: taskId, papers: {}, updated_at: '' }
+    const drafts = {
+      ...state.drafts,
+      [taskId]: {
+        ...draft,
+        papers: { ...draft.papers, [paper.paper_id]: paper },
+        updated_at: new Date().toISOString(),
+      },
+    }
+    saveToStorage(ANNOTATIONS_KEY, drafts)
+    return { drafts }
+  }),
+  clearDraft: (taskId) => set((state) => {
+    const { [taskId]: _removed, ...drafts } = state.drafts
+    saveToStorage(ANNOTATIONS_KEY, drafts)
+    return { drafts }
+  }),
+}))
+
+// Local analysis queue, submitted in order whenever the server slot is free
+export interface QueuedAnalysis {
+  id: string
+  request: AnalysisRequest
+  queued_at: string
+  // Preset whose series the resulting task joins
+  preset_id?: string
+  // Task the resulting task re-runs
+  parent?: TaskLineage
+  // Tab currently submitting the item, so other open tabs don't submit it too
+  claimed_by?: string
+  claimed_at?: string
+}
+
+interface QueueState {
+  items: QueuedAnalysis[]
+  enqueue: (request: AnalysisRequest, presetId?: string, parent?: TaskLineage) => QueuedAnalysis
+  remove: (id: string) => void
+  move: (id: string, offset: number) => void
+  claim: (id: string, now: Date) => boolean
+  release: (id: string) => void
+}
+
+const QUEUE_KEY = 'taskQueue'
+// Identifies this tab in queue claims
+const TAB_ID = createId()
+// A claim left by a tab that closed mid-submit expires after this long
+const QUEUE_CLAIM_TTL_MS = 60000
+
+export const useQueueStore = create<QueueState>((set) => ({
+  items: loadFromStorage<QueuedAnalysis[]>(QUEUE_KEY, []),
+  enqueue: (request, presetId, parent) => {
+    const item: QueuedAnalysis = {
+      id: createId(),
+      request,
+      queued_at: new Date().toISOString(),
+      preset_id: presetId,
+      parent,
+    }
+    set((state) => {
+      const items = [...state.items, item]
+      saveToStorage(QUEUE_KEY, items)
+      return { items }
+    })
+    return item
+  },
+  remove: (id) => set((state) => {
+    const items = state.items.filter(item => item.id !== id)
+    saveToStorage(QUEUE_KEY, items)
+    return { items }
+  }),
+  move: (id, offset) => set((state) => {
+    const from = state.items.findIndex(item => item.id === id)
+    const to = from + offset
+    if (from === -1 || to < 0 || to >= state.items.length) return state
+    const items = [...state.items]
+    const [item] = items.splice(from, 1)
+    items.splice(to, 0, item)
+    saveToStorage(QUEUE_KEY, items)
+    return { items }
+  }),
+  // Re-reads storage so that when several tabs are open only one of them submits an item
+  claim: (id, now) => {
+    const stored = loadFromStorage<QueuedAnalysis[]>(QUEUE_KEY, [])
+    const item = stored.find(i => i.id === id)
+    if (!item) return false
+    const claimedElsewhere = item.claimed_by && item.claimed_by !== TAB_ID &&
+      now.getTime() - new Date(item.claimed_at || 0).getTime() < QUEUE_CLAIM_TTL_MS
+    if (claimedElsewhere) return false
+    const items = stored.map(i => i.id === id ? { ...i, claimed_by: TAB_ID, claimed_at: now.toISOString() } : i)
+    saveToStorage(QUEUE_KEY, items)
+    set({ items })
+    return true
+  },
+  release: (id) => set((state) => {
+    const items = state.items.map(item => item.id === id ? { ...item, claimed_by: undefined, claimed_at: undefined } : item)
+    saveToStorage(QUEUE_KEY, items)
+    return { items }
+  }),
+}))
+
+// Tasks started as a re-run of another task, keyed by the new task's id
+export type RerunMode = 'rerun' | 'retry_failed'
+
+export interface TaskLineage {
+  parent_id: string
+  mode: RerunMode
+}
+
+interface LineageState {
+  parents: Record<string, TaskLineage>
+  link: (taskId: string, lineage: TaskLineage) => void
+}
+
+const LINEAGE_KEY = 'taskLineage'
+
+export const useLineageStore = create<LineageState>((set) => ({
+  parents: loadFromStorage<Record<string, TaskLineage>>(LINEAGE_KEY, {}),
+  link: (taskId, lineage) => set((state) => {
+    const parents = { ...state.parents, [taskId]: lineage }
+    saveToStorage(LINEAGE_KEY, parents)
+    return { parents }
+  }),
+}))
+
+// Manual calls on whether two author name spellings are the same person, keyed by name pair
+export type NameDecision = 'merge' | 'split'
+
+interface AuthorNameState {
+  decisions: Record<string, NameDecision>
+  setDecision: (pairKey: string, decision: NameDecision | null) => void
+}
+
+const AUTHOR_NAMES_KEY = 'authorNameDecisions'
+
+export const useAuthorNameStore = create<AuthorNameState>((set) => ({
+  decisions: loadFromStorage<Record<string, NameDecision>>(AUTHOR_NAMES_KEY, {}),
+  setDecision: (pairKey, decision) => set((state) => {
+    const { [pairKey]: _previous, ...decisions } = state.decisions
+    if (decision) decisions[pairKey] = decision
+    saveToStorage(AUTHOR_NAMES_KEY, decisions)
+    return { decisions }
+  }),
+}))
+
+// Saved analysis presets, optionally re-run on a schedule
+export type PresetCadence = 'daily' | 'weekly' | 'monthly'
+
+export interface PresetSchedule {
+  cadence: PresetCadence
+  enabled: boolean
+  next_run_at: string
+  last_run_at?: string
+}
+
+// One run in a preset's series
+export interface PresetRun {
+  task_id: string
+  started_at: string
+  date_from?: string
+  date_to?: string
+}
+
+export interface AnalysisPreset {
+  id: string
+  name: string
+  request: AnalysisRequest
+  // When set, each run searches the last N days instead of the saved date range
+  rolling_days?: number
+  schedule?: PresetSchedule
+  runs: PresetRun[]
+  created_at: string
+}
+
+interface PresetState {
+  presets: AnalysisPreset[]
+  savePreset: (name: string, request: AnalysisRequest) => AnalysisPreset
+  updatePreset: (id: string, changes: Partial<Omit<AnalysisPreset, 'id' | 'runs' | 'created_at'>>) => void
+  deletePreset: (id: string) => void
+  recordRun: (id: string, run: PresetRun) => void
+  claimScheduledRun: (id: string, now: Date, nextRunAt: string) => boolean
+}
+
+const PRESETS_KEY = 'analysisPresets'
+
+export const usePresetStore = create<PresetState>((set) => {
+  const update = (fn: (presets: AnalysisPreset[]) => AnalysisPreset[]) => set((state) => {
+    const presets = fn(state.presets)
+    saveToStorage(PRESETS_KEY, presets)
+    return { presets }
+  })
+
+  return {
+    presets: loadFromStorage<AnalysisPreset[]>(PRESETS_KEY, []),
+    savePreset: (name, request) => {
+      const preset: AnalysisPreset = {
+        id: createId(),
+        name,
+        request,
+        runs: [],
+        created_at: new Date().toISOString(),
+      }
+      update(presets => [...presets, preset])
+      return preset
+    },
+    updatePreset: (id, changes) => update(presets =>
+      presets.map(p => p.id === id ? { ...p, ...changes } : p)
+    ),
+    deletePreset: (id) => update(presets => presets.filter(p => p.id !== id)),
+    recordRun: (id, run) => update(presets =>
+      presets.map(p => p.id === id ? { ...p, runs: [...p.runs, run] } : p)
+    ),
+    // Re-reads storage so that when several tabs are open only one of them runs a due preset
+    claimScheduledRun: (id, now, nextRunAt) => {
+      const preset = loadFromStorage<AnalysisPreset[]>(PRESETS_KEY, []).find(p => p.id === id)
+      if (!preset?.schedule?.enabled || new Date(preset.schedule.next_run_at) > now) return false
+      update(presets => presets.map(p => p.id === id && p.schedule ? {
+        ...p,
+        schedule: { ...p.schedule, next_run_at: nextRunAt, last_run_at: now.toISOString() },
+      } : p))
+      return true
+    },
+  }
+})
+
+// Per-stage timing observed from WebSocket progress, kept for estimates and timelines
+export interface StageSpan {
+  stage: ProcessingStage
+  started_at: string
+  ended_at: string
+  processed_start: number
+  processed_end: number
+  total: number
+}
+
+export interface StageTimeline {
+  task_id: string
+  data_source?: string
+  stages: StageSpan[]
+}
+
+interface StageHistoryState {
+  timelines: Record<string, StageTimeline>
+  recordProgress: (progress: TaskProgress, dataSource?: string) => void
+}
+
+const STAGE_HISTORY_KEY = 'stageHistory'
+// Oldest timelines are dropped beyond this many tasks
+const STAGE_HISTORY_LIMIT = 100
+
+export const useStageHistoryStore = create<StageHistoryState>((set) => ({
+  timelines: loadFromStorage<Record<string, StageTimeline>>(STAGE_HISTORY_KEY, {}),
+  recordProgress: (progress, dataSource) => set((state) => {
+    const existing = state.timelines[progress.task_id]
+    const stages = existing ? [...existing.stages] : []
+    const last = stages[stages.length - 1]
+    if (last && last.stage === progress.stage) {
+      stages[stages.length - 1] = {
+        ...last,
+        ended_at: progress.timestamp,
+        processed_end: progress.processed,
+        total: progress.total,
+      }
+    } else {
+      if (last) stages[stages.length - 1] = { ...last, ended_at: progress.timestamp }
+      stages.push({
+        stage: progress.stage,
+        started_at: progress.timestamp,
+        ended_at: progress.timestamp,
+        processed_start: progress.processed,
+        processed_end: progress.processed,
+        total: progress.total,
+      })
+    }
+
+    const timelines = {
+      ...state.timelines,
+      [progress.task_id]: {
+        task_id: progress.task_id,
+        data_source: dataSource || existing?.data_source,
+        stages,
+      },
+    }
+    const ids = Object.keys(timelines)
+    ids.slice(0, Math.max(0, ids.length - STAGE_HISTORY_LIMIT)).forEach(id => delete timelines[id])
+    saveToStorage(STAGE_HISTORY_KEY, timelines)
+    return { timelines }
+  }),
+}))
+
+// LLM price table used for cost estimates
+export interface ModelPrice {
+  model: string
+  // USD per million tokens
+  input: number
+  output: number
+}
+
+export interface PricingSettings {
+  models: ModelPrice[]
+  selected_model: string
+  // Average tokens sent to and received from the model per paper
+  input_tokens_per_paper: number
+  output_tokens_per_paper: number
+}
+
+interface PricingState extends PricingSettings {
+  setPricing: (changes: Partial<PricingSettings>) => void
+  resetPricing: () => void
+}
+
+const PRICING_KEY = 'pricing'
+
+export const DEFAULT_PRICING: PricingSettings = {
+  models: [
+    { model: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+    { model: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+    { model: 'gpt-4o', input: 2.5, output: 10 },
+  ],
+  selected_model: 'gpt-4o-mini',
+  input_tokens_per_paper: 2500,
+  output_tokens_per_paper: 200,
+}
+
+export const usePricingStore = create<PricingState>((set) => ({
+  ...loadFromStorage<PricingSettings>(PRICING_KEY, DEFAULT_PRICING),
+  setPricing: (changes) => set((state) => {
+    const next: PricingSettings = {
+      models: changes.models ?? state.models,
+      selected_model: changes.selected_model ?? state.selected_model,
+      input_tokens_per_paper: changes.input_tokens_per_paper ?? state.input_tokens_per_paper,
+      output_tokens_per_paper: changes.output_tokens_per_paper ?? state.output_tokens_per_paper,
+    }
+    saveToStorage(PRICING_KEY, next)
+    return next
+  }),
+  resetPricing: () => {
+    localStorage.removeItem(PRICING_KEY)
+    set(DEFAULT_PRICING)
+  },
+}))
+
+// Notification center for tasks that finished, newest first
+export interface TaskNotification {
+  id: string
+  task_id: string
+  status: TaskStatus
+  title: string
+  message: string
+  created_at: string
+  read: boolean
+}
+
+interface NotificationSettings {
+  items: TaskNotification[]
+  // Also show browser notifications (permission is asked when enabling)
+  desktop: boolean
+  // Latest finish time already covered when scanning the task list
+  checked_until?: string
+}
+
+interface NotificationState extends NotificationSettings {
+  // Returns the new notification, or null if this task's outcome was already recorded
+  add: (notification: Pick<TaskNotification, 'task_id' | 'status' | 'title' | 'message'>) => TaskNotification | null
+  markRead: (id: string) => void
+  markAllRead: () => void
+  clear: () => void
+  setDesktop: (desktop: boolean) => void
+  setCheckedUntil: (checkedUntil: string) => void
+}
+
+const NOTIFICATIONS_KEY = 'notifications'
+const NOTIFICATIONS_LIMIT = 50
+
+export const useNotificationStore = create<NotificationState>((set) => {
+  const update = (fn: (state: NotificationSettings) => Partial<NotificationSettings>) => set((state) => {
+    const next = { items: state.items, desktop: state.desktop, checked_until: state.checked_until, ...fn(state) }
+    saveToStorage(NOTIFICATIONS_KEY, next)
+    return next
+  })
+
+  return {
+    ...loadFromStorage<NotificationSettings>(NOTIFICATIONS_KEY, { items: [], desktop: false }),
+    add: (notification) => {
+      // Read storage rather than state so two tabs don't both record the same outcome
+      const stored = loadFromStorage<NotificationSettings>(NOTIFICATIONS_KEY, { items: [], desktop: false })
+      if (stored.items.some(n => n.task_id === notification.task_id && n.status === notification.status)) return null
+      const item: TaskNotification = {
+        ...notification,
+        id: createId(),
+        created_at: new Date().toISOString(),
+        read: false,
+      }
+      update(() => ({ items: [item, ...stored.items].slice(0, NOTIFICATIONS_LIMIT) }))
+      return item
+    },
+    markRead: (id) => update(state => ({
+      items: state.items.map(n => n.id === id ? { ...n, read: true } : n),
+    })),
+    markAllRead: () => update(state => ({
+      items: state.items.map(n => ({ ...n, read: true })),
+    })),
+    clear: () => update(() => ({ items: [] })),
+    setDesktop: (desktop) => update(() => ({ desktop })),
+    setCheckedUntil: (checkedUntil) => update(() => ({ checked_until: checkedUntil })),
+  }
+})
+
+// Keep queue, presets and notifications in other tabs in sync so only one copy of each item gets submitted
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === QUEUE_KEY) {
+      useQueueStore.setState({ items: loadFromStorage<QueuedAnalysis[]>(QUEUE_KEY, []) })
+    } else if (event.key === PRESETS_KEY) {
+      usePresetStore.setState({ presets: loadFromStorage<AnalysisPreset[]>(PRESETS_KEY, []) })
+    } else if (event.key === NOTIFICATIONS_KEY) {
+      useNotificationStore.setState(loadFromStorage<NotificationSettings>(NOTIFICATIONS_KEY, { items: [], desktop: false }))
+    }
+  })
+}
+
+// Every WebSocket event seen for a task, kept in memory for the live console
+export type EventSeverity = 'info' | 'warning' | 'error'
+
+export interface TaskEvent {
+  id: number
+  received_at: string
+  type: 'status' | 'progress' | 'completed' | 'error' | 'connection'
+  severity: EventSeverity
+  stage?: string
+  message: string
+  data?: unknown
+}
+
+interface EventLogState {
+  events: Record<string, TaskEvent[]>
+  append: (taskId: string, event: Omit<TaskEvent, 'id' | 'received_at'>) => void
+  clear: (taskId: string) => void
+}
+
+// Oldest events of a task are dropped beyond this many
+const EVENT_LOG_LIMIT = 5000
+let nextEventId = 1
+
+export const useEventLogStore = create<EventLogState>((set) => ({
+  events: {},
+  append: (taskId, event) => set((state) => {
+    const existing = state.events[taskId] || []
+    const entry: TaskEvent = { ...event, id: nextEventId++, received_at: new Date().toISOString() }
+    return {
+      events: {
+        ...state.events,
+        [taskId]: [...existing.slice(-(EVENT_LOG_LIMIT - 1)), entry],
+      },
+    }
+  }),
+  clear: (taskId) => set((state) => {
+    const { [taskId]: _removed, ...events } = state.events
+    return { events }
+  }),
+}))
@@ -184,3 +184,24 @@ export interface WSMessage {
   type: 'status' | 'progress' | 'completed' | 'error'
   data: TaskStatusResponse | TaskProgress | string
 }
+
+// Gold standard format consumed by the evaluator
+export interface GoldStandardAuthor {
+  name: string
+  affiliation: string
+  country_code?: string
+  org_type: string
+}
+
+export interface GoldStandardPaper {
+  paper_id: string
+  title: string
+  authors: GoldStandardAuthor[]
+  hallucinated_authors: string[]
+}
+
+export interface GoldStandard {
+  task_id: string
+  created_at: string
+  papers: GoldStandardPaper[]
+}
@@ -13,6 +13,12 @@ export default defineConfig({
   server: {
     port: 5173,
     proxy: {
+      // The backend serves its health check outside /api; matched before the general /api rule
+      '/api/health': {
+        target: process.env.VITE_API_URL || 'http://localhost:8000',
+        changeOrigin: true,
+        rewrite: () => '/health',
+      },
       '/api': {
         target: process.env.VITE_API_URL || 'http://localhost:8000',
         changeOrigin: true,